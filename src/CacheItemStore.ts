@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CacheItem } from './UserCodeRunner.js';
+
+// Storage backend for preprocessed user code, keyed by a content hash computed by the UserCodeRunner
+export interface CacheItemStore {
+	get(key: string): Promise<CacheItem | undefined>;
+	set(key: string, cacheItem: CacheItem): Promise<void>;
+}
+
+// Keeps the most recently used cache items in memory, evicting the least recently used once full
+export class InMemoryLRUCacheItemStore implements CacheItemStore {
+	private readonly cacheItems = new Map<string, CacheItem>();
+
+	constructor(private readonly maxEntries: number = 100) {
+		if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+			throw new Error(`maxEntries must be a positive integer, but was: ${maxEntries}`);
+		}
+	}
+
+	public get size(): number {
+		return this.cacheItems.size;
+	}
+
+	public async get(key: string): Promise<CacheItem | undefined> {
+		const cacheItem = this.cacheItems.get(key);
+		if (cacheItem === undefined) {
+			return undefined;
+		}
+		// Maps iterate in insertion order, so reinserting marks the entry as most recently used
+		this.cacheItems.delete(key);
+		this.cacheItems.set(key, cacheItem);
+		return cacheItem;
+	}
+
+	public async set(key: string, cacheItem: CacheItem): Promise<void> {
+		this.cacheItems.delete(key);
+		this.cacheItems.set(key, cacheItem);
+		while (this.cacheItems.size > this.maxEntries) {
+			this.cacheItems.delete(this.cacheItems.keys().next().value);
+		}
+	}
+}
+
+// Persists each cache item as a JSON file in a directory so that it survives process restarts
+export class FileSystemCacheItemStore implements CacheItemStore {
+	constructor(private readonly directory: string) {}
+
+	public async get(key: string): Promise<CacheItem | undefined> {
+		let contents: string;
+		try {
+			contents = await fs.promises.readFile(this.pathFor(key), 'utf8');
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+		try {
+			return JSON.parse(contents) as CacheItem;
+		} catch {
+			// A partially written or otherwise corrupt entry is treated as a miss and overwritten on the next set
+			return undefined;
+		}
+	}
+
+	public async set(key: string, cacheItem: CacheItem): Promise<void> {
+		await fs.promises.mkdir(this.directory, { recursive: true });
+		// Write to a temporary file first so concurrent readers never observe a partial entry, unique to each call so that
+		// concurrent sets of the same key do not rename each other's file
+		const temporaryPath = `${this.pathFor(key)}.${crypto.randomUUID()}.tmp`;
+		await fs.promises.writeFile(temporaryPath, JSON.stringify(cacheItem), 'utf8');
+		await fs.promises.rename(temporaryPath, this.pathFor(key));
+	}
+
+	private pathFor(key: string): string {
+		if (!/^[0-9a-f]+$/.test(key)) {
+			throw new Error(`Invalid cache key: ${key}`);
+		}
+		return path.join(this.directory, `${key}.json`);
+	}
+}
@@ -0,0 +1,105 @@
+import ts from 'typescript';
+
+export interface SignatureParameter {
+	name: string;
+	type: string; // A TypeScript type expression, e.g. 'string' or 'Map<string, Goal>'
+	optional?: boolean;
+}
+
+// An exported type of an additional source file that the type expressions of a signature refer to
+export interface SignatureTypeImport {
+	name: string;
+	from: string; // Import specifier of the additional source file, e.g. 'scheduler/index'
+}
+
+export interface SignatureDescriptor {
+	parameters: SignatureParameter[];
+	returnType: string;
+	typeImports?: SignatureTypeImport[];
+}
+
+// A signature descriptor tagged with the TypeScript types of the arguments and return value it declares
+export interface Signature<ArgsType extends any[] = any[], ReturnType = any> extends SignatureDescriptor {
+	readonly __argsType?: ArgsType;
+	readonly __returnType?: ReturnType;
+}
+
+// Thrown when a signature declared by the host cannot be used to check user code
+export class InvalidSignatureError extends Error {
+	constructor(public readonly problems: string[]) {
+		super(`Invalid signature:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+		this.name = 'InvalidSignatureError';
+	}
+}
+
+/**
+ * Validate a signature descriptor and tie it to the TypeScript types of its arguments and return value, e.g.
+ * defineSignature<[string], Goal>({ parameters: [{ name: 'name', type: 'string' }], returnType: 'Goal', ... })
+ */
+export function defineSignature<ArgsType extends any[] = any[], ReturnType = any>(
+	descriptor: SignatureDescriptor,
+): Signature<ArgsType, ReturnType> {
+	validateSignature(descriptor);
+	return descriptor;
+}
+
+export function validateSignature(descriptor: SignatureDescriptor): void {
+	const problems: string[] = [];
+	const parameterNames = new Set<string>();
+	let optionalParameterSeen = false;
+
+	for (const parameter of descriptor.parameters) {
+		if (!isIdentifier(parameter.name)) {
+			problems.push(`Parameter name '${parameter.name}' is not a valid identifier.`);
+		} else if (parameterNames.has(parameter.name)) {
+			problems.push(`Parameter name '${parameter.name}' is declared more than once.`);
+		}
+		parameterNames.add(parameter.name);
+		if (parameter.optional) {
+			optionalParameterSeen = true;
+		} else if (optionalParameterSeen) {
+			problems.push(`Required parameter '${parameter.name}' cannot follow an optional parameter.`);
+		}
+		problems.push(...validateTypeExpression(parameter.type, `Parameter '${parameter.name}'`));
+	}
+	problems.push(...validateTypeExpression(descriptor.returnType, 'Return type'));
+
+	for (const typeImport of descriptor.typeImports ?? []) {
+		if (!isIdentifier(typeImport.name)) {
+			problems.push(`Type import name '${typeImport.name}' is not a valid identifier.`);
+		}
+		if (typeImport.from.length === 0 || /['"\\\n]/.test(typeImport.from)) {
+			problems.push(`Type import specifier '${typeImport.from}' is not valid.`);
+		}
+	}
+
+	if (problems.length > 0) {
+		throw new InvalidSignatureError(problems);
+	}
+}
+
+// The argument types in the form the execution harness declares them, labelled with the parameter names
+export function getSignatureArgsTypes(descriptor: SignatureDescriptor): string[] {
+	return descriptor.parameters.map(parameter => `${parameter.name}${parameter.optional ? '?' : ''}: ${parameter.type}`);
+}
+
+function validateTypeExpression(typeExpression: string, description: string): string[] {
+	const sourceFile = ts.createSourceFile('__signature.ts', `type __T = ${typeExpression};`, ts.ScriptTarget.ESNext);
+	const { diagnostics } = ts.transpileModule(sourceFile.text, { reportDiagnostics: true });
+	const statement = sourceFile.statements[0];
+	// A single type alias that ends where the expression ends rules out expressions that escape the harness declaration
+	if (
+		typeExpression.trim().length === 0 ||
+		(diagnostics ?? []).length > 0 ||
+		sourceFile.statements.length !== 1 ||
+		!ts.isTypeAliasDeclaration(statement) ||
+		statement.type.end !== sourceFile.text.length - 1
+	) {
+		return [`${description} '${typeExpression}' is not a valid type expression.`];
+	}
+	return [];
+}
+
+function isIdentifier(name: string): boolean {
+	return /^[A-Za-z_$][\w$]*$/.test(name);
+}
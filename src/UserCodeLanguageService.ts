@@ -0,0 +1,256 @@
+import path from 'path';
+import ts from 'typescript';
+import { getModuleKey, ModuleMap, validateModuleMap } from './utils/moduleResolution.js';
+import { toTextEdit, UserCodeTextEdit } from './utils/codeFixes.js';
+import {
+	createCompilerOptions,
+	createExecutionHarnessCode,
+	createFileVersion,
+	createFormatCodeSettings,
+	createVirtualFileLookup,
+	createVirtualLanguageService,
+	EXECUTION_HARNESS_FILENAME,
+	USER_CODE_FILENAME,
+	validateProject,
+	VirtualFile,
+	VirtualFileLookup,
+} from './utils/userCodeEnvironment.js';
+import type { UserCodeLanguage, UserCodeProject, UserCodeRunnerOptions } from './UserCodeRunner.js';
+
+export interface UserCodeCompletion {
+	name: string;
+	kind: string; // E.g. 'function', 'property' or 'keyword', see ts.ScriptElementKind
+	sortText: string; // Orders the completions the way TypeScript ranks them
+	insertText?: string; // The text to insert when it differs from the name
+}
+
+export interface UserCodeSignatureHelp {
+	signatures: {
+		label: string; // E.g. 'goal(name: string, interval?: number): Goal'
+		documentation: string;
+		parameters: { label: string; documentation: string }[];
+	}[];
+	activeSignature: number;
+	activeParameter: number;
+}
+
+export interface UserCodeQuickInfo {
+	text: string; // The declaration of the symbol, e.g. 'function goal(name: string): Goal'
+	documentation: string;
+	start: number; // Offset in the user file of the identifier the info is about
+	length: number;
+}
+
+// A span of a user file or an additional source file, e.g. where a library function is declared
+export interface UserCodeSpan {
+	fileName: string; // '__user_file' for single file user code, otherwise the name of the user or additional source file
+	start: number;
+	length: number;
+	isUserFile: boolean; // False for additional source files, which editors should only show read-only
+}
+
+/**
+ * Answers editor requests about user code in the same virtual environment that UserCodeRunner.preProcess checks it in,
+ * so that the editor and the runner never disagree on the available API. Construct it with the options of the runner,
+ * and call update whenever the user code, its signature or the additional source files change.
+ */
+export class UserCodeLanguageService {
+	private readonly compilerOptions: ts.CompilerOptions;
+	private readonly formatSettings: ts.FormatCodeSettings;
+	private readonly moduleMap: ModuleMap;
+	private readonly language: UserCodeLanguage;
+	private readonly languageService: ts.LanguageService;
+	// Virtual files by module key, the same key the runner's compiler host and vm linker use
+	private files = new Map<string, VirtualFile>();
+	private fileLookup: VirtualFileLookup<VirtualFile>;
+	private userModuleKeys = new Set<string>();
+	private entryModuleKey: string = USER_CODE_FILENAME;
+	private rootFileNames: string[] = [];
+
+	constructor(options?: UserCodeRunnerOptions) {
+		this.language = options?.language ?? 'typescript';
+		this.compilerOptions = createCompilerOptions(options?.compilerOptions ?? {}, this.language);
+		this.formatSettings = createFormatCodeSettings(options?.formatOptions ?? {});
+		this.moduleMap = options?.moduleMap ?? {};
+		validateModuleMap(this.moduleMap);
+		this.fileLookup = createVirtualFileLookup(this.files, this.moduleMap);
+		this.languageService = createVirtualLanguageService(
+			this.compilerOptions,
+			() => this.rootFileNames,
+			() => this.fileLookup,
+		);
+		this.update('');
+	}
+
+	/** Replace the user code and the environment it is checked in, taking the same arguments as preProcess */
+	public update(
+		userCode: string | UserCodeProject,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default',
+	): void {
+		const userScriptKind = this.language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+		const files = new Map<string, Omit<VirtualFile, 'version'>>();
+		if (typeof userCode === 'string') {
+			this.entryModuleKey = USER_CODE_FILENAME;
+			files.set(USER_CODE_FILENAME, { fileName: USER_CODE_FILENAME, text: userCode, scriptKind: userScriptKind });
+		} else {
+			validateProject(userCode, additionalSourceFiles, this.language);
+			this.entryModuleKey = getModuleKey(userCode.entry);
+			for (const [fileName, text] of Object.entries(userCode.files)) {
+				const normalizedFileName = path.posix.normalize(fileName);
+				files.set(getModuleKey(normalizedFileName), {
+					fileName: normalizedFileName,
+					text,
+					scriptKind: userScriptKind,
+				});
+			}
+		}
+		this.userModuleKeys = new Set(files.keys());
+		for (const additionalSourceFile of additionalSourceFiles) {
+			files.set(getModuleKey(additionalSourceFile.fileName), {
+				fileName: additionalSourceFile.fileName,
+				text: additionalSourceFile.text,
+				scriptKind: ts.ScriptKind.Unknown,
+			});
+		}
+		files.set(EXECUTION_HARNESS_FILENAME, {
+			fileName: EXECUTION_HARNESS_FILENAME,
+			text: createExecutionHarnessCode(
+				this.entryModuleKey,
+				{ harnessModuleKey: EXECUTION_HARNESS_FILENAME, exportName, outputType, argsTypes },
+				additionalSourceFiles,
+			),
+			scriptKind: ts.ScriptKind.TS,
+		});
+
+		// Unchanged files keep their version, so that the language service only reparses what changed
+		const oldFiles = this.files;
+		this.files = new Map();
+		for (const [moduleKey, file] of files) {
+			const oldFile = oldFiles.get(moduleKey);
+			const unchanged = oldFile !== undefined && oldFile.fileName === file.fileName && oldFile.text === file.text;
+			this.files.set(moduleKey, { ...file, version: unchanged ? oldFile.version : createFileVersion() });
+		}
+		this.fileLookup = createVirtualFileLookup(this.files, this.moduleMap);
+		this.rootFileNames = [
+			...additionalSourceFiles.map(file => file.fileName),
+			this.files.get(EXECUTION_HARNESS_FILENAME)!.fileName,
+		];
+	}
+
+	/** Completions at an offset of a user file, which defaults to the entry file */
+	public getCompletions(offset: number, fileName?: string): UserCodeCompletion[] {
+		const completions = this.languageService.getCompletionsAtPosition(this.getUserFileName(fileName), offset, {
+			includeCompletionsWithInsertText: true,
+		});
+		return (completions?.entries ?? [])
+			.filter(entry => !entry.name.startsWith(EXECUTION_HARNESS_FILENAME))
+			.map(entry => ({
+				name: entry.name,
+				kind: entry.kind,
+				sortText: entry.sortText,
+				insertText: entry.insertText,
+			}));
+	}
+
+	/** The signatures of the call an offset of a user file is in the arguments of */
+	public getSignatureHelp(offset: number, fileName?: string): UserCodeSignatureHelp | undefined {
+		const signatureHelp = this.languageService.getSignatureHelpItems(this.getUserFileName(fileName), offset, undefined);
+		if (signatureHelp === undefined) {
+			return undefined;
+		}
+		return {
+			signatures: signatureHelp.items.map(item => ({
+				label: ts.displayPartsToString([
+					...item.prefixDisplayParts,
+					...item.parameters.flatMap((parameter, index) =>
+						index === 0 ? parameter.displayParts : [...item.separatorDisplayParts, ...parameter.displayParts],
+					),
+					...item.suffixDisplayParts,
+				]),
+				documentation: ts.displayPartsToString(item.documentation),
+				parameters: item.parameters.map(parameter => ({
+					label: ts.displayPartsToString(parameter.displayParts),
+					documentation: ts.displayPartsToString(parameter.documentation),
+				})),
+			})),
+			activeSignature: signatureHelp.selectedItemIndex,
+			activeParameter: signatureHelp.argumentIndex,
+		};
+	}
+
+	/** The type and documentation of the symbol at an offset of a user file, as shown on hover */
+	public getQuickInfo(offset: number, fileName?: string): UserCodeQuickInfo | undefined {
+		const quickInfo = this.languageService.getQuickInfoAtPosition(this.getUserFileName(fileName), offset);
+		if (quickInfo === undefined) {
+			return undefined;
+		}
+		return {
+			text: ts.displayPartsToString(quickInfo.displayParts),
+			documentation: ts.displayPartsToString(quickInfo.documentation),
+			start: quickInfo.textSpan.start,
+			length: quickInfo.textSpan.length,
+		};
+	}
+
+	/** Where the symbol at an offset of a user file is declared, following imports into additional source files */
+	public getDefinitions(offset: number, fileName?: string): UserCodeSpan[] {
+		const definitions = this.languageService.getDefinitionAtPosition(this.getUserFileName(fileName), offset);
+		return this.toSpans(definitions ?? []);
+	}
+
+	/** Every reference to the symbol at an offset of a user file, across user files and additional source files */
+	public getReferences(offset: number, fileName?: string): UserCodeSpan[] {
+		const referencedSymbols = this.languageService.findReferences(this.getUserFileName(fileName), offset);
+		return this.toSpans((referencedSymbols ?? []).flatMap(referencedSymbol => referencedSymbol.references));
+	}
+
+	/** Edits that format a user file with the formatOptions of the runner */
+	public getFormattingEdits(fileName?: string): UserCodeTextEdit[] {
+		const userFileName = this.getUserFileName(fileName);
+		return this.languageService
+			.getFormattingEditsForDocument(userFileName, this.formatSettings)
+			.map(textChange => toTextEdit(userFileName, textChange));
+	}
+
+	/** Edits that remove the unused imports of a user file and sort the others */
+	public getOrganizeImportsEdits(fileName?: string): UserCodeTextEdit[] {
+		const userFileName = this.getUserFileName(fileName);
+		return this.languageService
+			.organizeImports({ type: 'file', fileName: userFileName }, this.formatSettings, undefined)
+			.filter(fileTextChanges => fileTextChanges.fileName === userFileName)
+			.flatMap(fileTextChanges => fileTextChanges.textChanges.map(textChange => toTextEdit(userFileName, textChange)));
+	}
+
+	public dispose(): void {
+		this.languageService.dispose();
+	}
+
+	// Spans in the harness and in the TypeScript libraries are of no use to the author of the user code
+	private toSpans(documentSpans: readonly ts.DocumentSpan[]): UserCodeSpan[] {
+		return documentSpans.flatMap(documentSpan => {
+			const moduleKey = this.fileLookup.getModuleKeyOfFile(documentSpan.fileName);
+			if (moduleKey === undefined || moduleKey === EXECUTION_HARNESS_FILENAME) {
+				return [];
+			}
+			return [
+				{
+					fileName: documentSpan.fileName,
+					start: documentSpan.textSpan.start,
+					length: documentSpan.textSpan.length,
+					isUserFile: this.userModuleKeys.has(moduleKey),
+				},
+			];
+		});
+	}
+
+	private getUserFileName(fileName: string | undefined): string {
+		const moduleKey = fileName === undefined ? this.entryModuleKey : getModuleKey(fileName);
+		if (!this.userModuleKeys.has(moduleKey)) {
+			throw new Error(`No user file found: ${fileName}`);
+		}
+		return this.files.get(moduleKey)!.fileName;
+	}
+}
@@ -0,0 +1,257 @@
+import ts from 'typescript';
+import { DEADLINE_CHECK_NAME } from './utils/deadlineChecks.js';
+
+// A rule that forbids a construct in user code, e.g. calls to eval
+export interface UserCodePolicyRule {
+	id: string; // Identifies the rule in errors and in UserCodePolicyOptions, e.g. 'no-eval'
+	version?: string; // Part of preProcessCached cache keys with the id, change it when the check changes
+	// Called for every node of every user file, returns a message if the node violates the rule. The type checker is
+	// undefined when user code is only transpiled.
+	check(node: ts.Node, typeChecker: ts.TypeChecker | undefined): string | undefined;
+}
+
+export interface UserCodePolicyOptions {
+	rules?: { [ruleId: string]: boolean }; // Enables or disables rules by id, every rule is enabled by default
+	customRules?: UserCodePolicyRule[]; // Rules checked in addition to the built in rules
+}
+
+export interface UserCodePolicyViolation {
+	ruleId: string;
+	node: ts.Node;
+	message: string;
+}
+
+const GLOBAL_OBJECT_NAMES = ['globalThis', 'window', 'self', 'global'];
+// Names the compiled user code depends on, user code that declared one of them could shadow it
+const RESERVED_NAMES = [DEADLINE_CHECK_NAME];
+// Rules that enforce the timeout of executions, which the options cannot disable
+const REQUIRED_RULE_IDS = ['no-reserved-names'];
+
+export const builtInPolicyRules: UserCodePolicyRule[] = [
+	{
+		id: 'no-eval',
+		check: (node, typeChecker) => {
+			if (ts.isCallExpression(node) && isGlobalReference(node.expression, 'eval', typeChecker)) {
+				return 'Calls to eval are not allowed.';
+			}
+			// E.g. const e = eval, which calls eval all the same later on
+			if (isGlobalValueReference(node, 'eval', typeChecker) && !isCallee(node)) {
+				return 'References to eval are not allowed.';
+			}
+			return undefined;
+		},
+	},
+	{
+		id: 'no-function-constructor',
+		check: (node, typeChecker) => {
+			if (
+				(ts.isNewExpression(node) || ts.isCallExpression(node)) &&
+				isGlobalReference(node.expression, 'Function', typeChecker)
+			) {
+				return 'Creating functions from strings with the Function constructor is not allowed.';
+			}
+			if (isGlobalValueReference(node, 'Function', typeChecker) && !isCallee(node)) {
+				return 'References to the Function constructor are not allowed.';
+			}
+			return undefined;
+		},
+	},
+	{
+		id: 'no-with',
+		check: node => (ts.isWithStatement(node) ? 'With statements are not allowed.' : undefined),
+	},
+	{
+		id: 'no-debugger',
+		check: node => (ts.isDebuggerStatement(node) ? 'Debugger statements are not allowed.' : undefined),
+	},
+	{
+		id: 'no-infinite-loop',
+		check: node =>
+			isUnconditionalLoop(node) && !canExitLoop(node.statement)
+				? 'Loops without a condition must contain a break, return or throw.'
+				: undefined,
+	},
+	{
+		id: 'no-constructor-constructor',
+		check: node =>
+			isPropertyAccess(node, 'constructor') && isPropertyAccess(skipOuterExpressions(node.expression), 'constructor')
+				? 'Accessing the constructor of a constructor is not allowed.'
+				: undefined,
+	},
+	{
+		id: 'no-reserved-names',
+		check: node =>
+			ts.isIdentifier(node) && RESERVED_NAMES.includes(node.text)
+				? `The name ${node.text} is reserved for the runner.`
+				: undefined,
+	},
+];
+
+/** Throw if the options refer to rules that do not exist */
+export function createPolicyRules(options: UserCodePolicyOptions): UserCodePolicyRule[] {
+	const rules = [...builtInPolicyRules, ...(options.customRules ?? [])];
+	const ruleIds = rules.map(rule => rule.id);
+	const duplicateRuleIds = ruleIds.filter((ruleId, index) => ruleIds.indexOf(ruleId) !== index);
+	if (duplicateRuleIds.length > 0) {
+		throw new Error(`Duplicate policy rule ids: ${duplicateRuleIds.join(', ')}`);
+	}
+	const unknownRuleIds = Object.keys(options.rules ?? {}).filter(ruleId => !ruleIds.includes(ruleId));
+	if (unknownRuleIds.length > 0) {
+		throw new Error(
+			`Unknown policy rules: ${unknownRuleIds.join(', ')}. Known policy rules are: ${ruleIds.join(', ')}`,
+		);
+	}
+	const disabledRequiredRuleIds = REQUIRED_RULE_IDS.filter(ruleId => options.rules?.[ruleId] === false);
+	if (disabledRequiredRuleIds.length > 0) {
+		throw new Error(`Policy rules that cannot be disabled: ${disabledRequiredRuleIds.join(', ')}`);
+	}
+	return rules.filter(rule => options.rules?.[rule.id] !== false);
+}
+
+export function checkPolicy(
+	sourceFile: ts.SourceFile,
+	rules: UserCodePolicyRule[],
+	typeChecker?: ts.TypeChecker,
+): UserCodePolicyViolation[] {
+	const violations: UserCodePolicyViolation[] = [];
+	const visit = (node: ts.Node): void => {
+		for (const rule of rules) {
+			const message = rule.check(node, typeChecker);
+			if (message !== undefined) {
+				violations.push({ ruleId: rule.id, node, message });
+			}
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+	return violations;
+}
+
+// eval, globalThis.eval, globalThis['eval'] and the like
+function isGlobalReference(expression: ts.Expression, name: string, typeChecker: ts.TypeChecker | undefined): boolean {
+	expression = skipOuterExpressions(expression);
+	if (ts.isIdentifier(expression)) {
+		return expression.text === name && !isShadowed(expression, typeChecker);
+	}
+	if (!isPropertyAccess(expression, name)) {
+		return false;
+	}
+	const object = skipOuterExpressions(expression.expression);
+	return ts.isIdentifier(object) && GLOBAL_OBJECT_NAMES.includes(object.text) && !isShadowed(object, typeChecker);
+}
+
+// Same as isGlobalReference, but for the node itself rather than what it wraps, and not for names of types or properties
+function isGlobalValueReference(node: ts.Node, name: string, typeChecker: ts.TypeChecker | undefined): boolean {
+	if (ts.isIdentifier(node)) {
+		return isValueReference(node) && isGlobalReference(node, name, typeChecker);
+	}
+	return (
+		(ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) &&
+		isGlobalReference(node, name, typeChecker)
+	);
+}
+
+// Whether an identifier refers to a value, rather than naming a declaration, a property, a label or a type
+function isValueReference(identifier: ts.Identifier): boolean {
+	const parent = identifier.parent;
+	if (ts.isShorthandPropertyAssignment(parent)) {
+		return true;
+	}
+	const { name, propertyName, label } = parent as { name?: ts.Node; propertyName?: ts.Node; label?: ts.Node };
+	if (name === identifier || propertyName === identifier || label === identifier) {
+		return false;
+	}
+	if (ts.isExpressionWithTypeArguments(parent)) {
+		// Only a class extends a value, interfaces extend and classes implement types
+		const heritageClause = parent.parent;
+		return (
+			ts.isHeritageClause(heritageClause) &&
+			heritageClause.token === ts.SyntaxKind.ExtendsKeyword &&
+			ts.isClassLike(heritageClause.parent)
+		);
+	}
+	return !ts.isTypeReferenceNode(parent) && !ts.isTypeQueryNode(parent) && !ts.isQualifiedName(parent);
+}
+
+// Whether the user code declares the identifier itself, only the type checker tells, so without it nothing is shadowed
+function isShadowed(identifier: ts.Identifier, typeChecker: ts.TypeChecker | undefined): boolean {
+	if (typeChecker === undefined) {
+		return false;
+	}
+	const symbol = ts.isShorthandPropertyAssignment(identifier.parent)
+		? typeChecker.getShorthandAssignmentValueSymbol(identifier.parent)
+		: typeChecker.getSymbolAtLocation(identifier);
+	return symbol?.declarations?.some(declaration => !declaration.getSourceFile().isDeclarationFile) ?? false;
+}
+
+// Whether the node is what a call or new expression calls, which the rules report as the call
+function isCallee(node: ts.Node): boolean {
+	while (
+		ts.isParenthesizedExpression(node.parent) ||
+		ts.isAsExpression(node.parent) ||
+		ts.isTypeAssertionExpression(node.parent) ||
+		ts.isNonNullExpression(node.parent) ||
+		ts.isSatisfiesExpression(node.parent)
+	) {
+		node = node.parent;
+	}
+	return (ts.isCallExpression(node.parent) || ts.isNewExpression(node.parent)) && node.parent.expression === node;
+}
+
+// Look through parentheses and type assertions, which do not change what an expression refers to
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+	while (
+		ts.isParenthesizedExpression(expression) ||
+		ts.isAsExpression(expression) ||
+		ts.isTypeAssertionExpression(expression) ||
+		ts.isNonNullExpression(expression) ||
+		ts.isSatisfiesExpression(expression)
+	) {
+		expression = expression.expression;
+	}
+	return expression;
+}
+
+function isPropertyAccess(
+	node: ts.Node,
+	name: string,
+): node is ts.PropertyAccessExpression | ts.ElementAccessExpression {
+	if (ts.isPropertyAccessExpression(node)) {
+		return node.name.text === name;
+	}
+	return (
+		ts.isElementAccessExpression(node) &&
+		ts.isStringLiteralLike(node.argumentExpression) &&
+		node.argumentExpression.text === name
+	);
+}
+
+// while (true), do ... while (true) and for (;;)
+function isUnconditionalLoop(node: ts.Node): node is ts.WhileStatement | ts.DoStatement | ts.ForStatement {
+	if (ts.isWhileStatement(node) || ts.isDoStatement(node)) {
+		return node.expression.kind === ts.SyntaxKind.TrueKeyword;
+	}
+	if (ts.isForStatement(node)) {
+		return node.condition === undefined || node.condition.kind === ts.SyntaxKind.TrueKeyword;
+	}
+	return false;
+}
+
+// Whether the body of a loop contains a statement that leaves it, not counting those of nested functions or loops
+function canExitLoop(body: ts.Statement): boolean {
+	const visit = (node: ts.Node, inNestedBreakable: boolean): boolean => {
+		if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+			return false;
+		}
+		if (ts.isReturnStatement(node) || ts.isThrowStatement(node)) {
+			return true;
+		}
+		if (ts.isBreakStatement(node)) {
+			// A labelled break may leave the loop from anywhere, an unlabelled one only from outside nested loops and switches
+			return node.label !== undefined || !inNestedBreakable;
+		}
+		const nestedBreakable = inNestedBreakable || ts.isIterationStatement(node, false) || ts.isSwitchStatement(node);
+		return ts.forEachChild(node, child => visit(child, nestedBreakable) || undefined) ?? false;
+	};
+	return visit(body, false);
+}
@@ -1,5 +1,9 @@
 import vm from 'vm';
 import path from 'path';
+import crypto from 'crypto';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
 import { defaultErrorCodeMessageMappers } from './defaultErrorCodeMessageMappers.js';
 import { createMapDiagnosticMessage } from './utils/errorMessageMapping.js';
 import ts from 'typescript';
@@ -7,30 +11,276 @@ import { parse, StackFrame } from 'stack-trace';
 import { SourceMapConsumer } from 'source-map';
 import { Result } from './utils/monads.js';
 import { TypeGuard } from './utils/typeGuardCombinators';
+import { CacheItemStore, InMemoryLRUCacheItemStore } from './CacheItemStore.js';
+import { getModuleKey, ModuleMap, validateModuleMap } from './utils/moduleResolution.js';
+import { getDeprecationDiagnostics } from './utils/deprecations.js';
+import { evaluateExecutionHarness, ExecutionCancelledError, ExecutionTimeoutError } from './utils/harnessEvaluation.js';
+import { createDeadlineCheckTransformer } from './utils/deadlineChecks.js';
+import { startUserCodeSampler, UserCodeFrame } from './utils/userCodeSampler.js';
+import type { ExecutionWorkerData, ExecutionWorkerMessage, SerializedError } from './executionWorker.js';
+import { applyTextEdits, createCodeFixProvider, UserCodeFix } from './utils/codeFixes.js';
+import { UserCodeLanguageService } from './UserCodeLanguageService.js';
+import {
+	createCompilerOptions,
+	createExecutionHarnessCode,
+	createFormatCodeSettings,
+	DEFAULT_COMPILER_OPTIONS,
+	EXECUTION_HARNESS_FILENAME,
+	ExecutionHarnessEntrypoint,
+	getExecutionHarnessModuleKey,
+	USER_CODE_FILENAME,
+	validateProject,
+	VirtualFileLookup,
+} from './utils/userCodeEnvironment.js';
+import {
+	createTypeSchema,
+	formatTypeSchemaPath,
+	TypeSchema,
+	TypeSchemaMismatch,
+	validateTypeSchema,
+} from './utils/typeSchema.js';
+import {
+	getSignatureArgsTypes,
+	InvalidSignatureError,
+	Signature,
+	SignatureDescriptor,
+	SignatureTypeImport,
+	validateSignature,
+} from './Signature.js';
+import {
+	builtInPolicyRules,
+	checkPolicy,
+	createPolicyRules,
+	UserCodePolicyOptions,
+	UserCodePolicyRule,
+} from './UserCodePolicy.js';
 
 type integer = number;
 
 export { defaultErrorCodeMessageMappers } from './defaultErrorCodeMessageMappers.js';
-
-const EXECUTION_HARNESS_FILENAME = '__execution_harness';
-const USER_CODE_FILENAME = '__user_file';
+export type { CacheItemStore } from './CacheItemStore.js';
+export { InMemoryLRUCacheItemStore, FileSystemCacheItemStore } from './CacheItemStore.js';
+export type { ModuleMap } from './utils/moduleResolution.js';
+export type { Signature, SignatureDescriptor, SignatureParameter, SignatureTypeImport } from './Signature.js';
+export { defineSignature, InvalidSignatureError } from './Signature.js';
+export type { UserCodePolicyOptions, UserCodePolicyRule } from './UserCodePolicy.js';
+export { builtInPolicyRules } from './UserCodePolicy.js';
+export type { TypeSchema } from './utils/typeSchema.js';
+export type { UserCodeFix, UserCodeTextEdit } from './utils/codeFixes.js';
+export { applyTextEdits } from './utils/codeFixes.js';
+export type {
+	UserCodeCompletion,
+	UserCodeQuickInfo,
+	UserCodeSignatureHelp,
+	UserCodeSpan,
+} from './UserCodeLanguageService.js';
+export { UserCodeLanguageService } from './UserCodeLanguageService.js';
+
+// Diagnostics that do not prevent user code from running
+const WARNING_DIAGNOSTIC_SEVERITIES: { [errorCode: number]: UserCodeWarningSeverity } = {
+	6133: 'suggestion', // '{0}' is declared but its value is never read.
+	6138: 'suggestion', // Property '{0}' is declared but its value is never read.
+	6192: 'suggestion', // All imports in import declaration are unused.
+	6196: 'suggestion', // '{0}' is declared but never used.
+	6198: 'suggestion', // All destructured elements are unused.
+	6199: 'suggestion', // All variables are unused.
+	6205: 'suggestion', // All type parameters are unused.
+	7027: 'warning', // Unreachable code detected.
+	7028: 'warning', // Unused label.
+};
+const RUNNER_VERSION: string = createRequire(import.meta.url)('../package.json').version;
+// The worker entry point has the extension of this module, .ts when run from source and .js when built
+const EXECUTION_WORKER_URL = new URL(
+	`./executionWorker${path.extname(fileURLToPath(import.meta.url))}`,
+	import.meta.url,
+);
 
 export interface CacheItem {
 	jsFileMap: { [key: string]: string };
-	userCodeSourceMap: string;
+	userCodeSourceMap: string; // Source map of the entry user file
+	userFileSourceMaps: { [key: string]: string }; // Source maps of every user file, keyed like jsFileMap
+	typeChecked: boolean; // False for artifacts of preProcessTranspileOnly, which never type checks the user code
+	warnings: UserCodeWarning[]; // Diagnostics of the user code that do not prevent it from running
+	outputSchemas?: { [exportName: string]: UserCodeOutputSchema }; // Only with UserCodeRunnerOptions.validateOutput
+	signatures: { [exportName: string]: UserCodeSignature }; // The signatures the execution harnesses were compiled with
+}
+
+// The types an export was compiled against, so that stored artifacts can be checked against the arguments they are given
+export interface UserCodeSignature {
+	outputType: string;
+	argsTypes: string[];
+	argsSchema?: TypeSchema; // Only with UserCodeRunnerOptions.validateArgs
+}
+
+// The declared output type of an export, for checking the values it returns at runtime
+export interface UserCodeOutputSchema {
+	type: TypeSchema;
+	location?: UserCodeLocation; // Where mismatches are reported, e.g. the return statement of the export
+}
+
+// Checks the value returned by user code, either against a schema or with a type guard
+export type UserCodeOutputValidator = UserCodeOutputSchema | ((value: unknown) => boolean);
+
+export type UserCodeWarningSeverity = 'warning' | 'suggestion' | 'message';
+
+// A diagnostic that does not prevent user code from running, in the serialized shape of a UserCodeError
+export interface UserCodeWarning {
+	severity: UserCodeWarningSeverity;
+	message: string;
+	stack: string;
+	location: UserCodeLocation;
+}
+
+// The value returned by user code together with the warnings of its compilation
+export interface UserCodeOutput<ReturnType> {
+	value: ReturnType;
+	warnings: UserCodeWarning[];
+}
+
+// User code split over several files, e.g. { entry: 'main.ts', files: { 'main.ts': '...', 'helpers/time.ts': '...' } }
+export interface UserCodeProject {
+	files: { [fileName: string]: string };
+	entry: string; // The file whose default export is executed
+}
+
+// The signature the host calls a user code export with
+export interface ExportSignature {
+	outputType: string;
+	argsTypes: string[];
+}
+
+// The functions user code must export, keyed by export name, e.g. { goal: { outputType: 'Goal', argsTypes: [] } }
+export type ExportContract = { [exportName: string]: ExportSignature | SignatureDescriptor };
+
+export interface UserCodeLocation {
+	fileName: string; // Name of the user file, '__user_file' when the user code is a single string
+	line: number;
+	column: number;
+}
+
+// The subset of the TypeScript compiler options that may be configured, applied to both the type check and emit
+export interface UserCodeCompilerOptions {
+	strict?: boolean;
+	noImplicitAny?: boolean;
+	noUncheckedIndexedAccess?: boolean;
+	exactOptionalPropertyTypes?: boolean;
+	lib?: string[]; // Library names as they appear in a tsconfig.json, e.g. ['es2022'], defaults to ['esnext']
+}
+
+// The language user code is written in. JavaScript user code is type checked from its JSDoc annotations
+export type UserCodeLanguage = 'typescript' | 'javascript';
+
+/**
+ * Where user code runs. 'vm' evaluates it in a vm context of the host process. 'worker' evaluates it in a worker thread
+ * that is terminated when the timeout passes, even if the user code is stuck awaiting. Values go in and out of a worker
+ * by structured clone, so arguments, results and the globals of the context must be cloneable.
+ */
+export type UserCodeExecutor = 'vm' | 'worker';
+
+// What the user code was doing when it timed out, either running synchronously or awaiting the result it returned
+export type UserCodeExecutionPhase = 'evaluation' | 'awaiting-result';
+
+// What was stopped by an AbortSignal, the compilation in preProcess or the execution of the compiled user code
+export type UserCodeCancellationPhase = 'compilation' | 'execution';
+
+// Bounds on the resources of each execution by the 'worker' executor, see the resourceLimits of worker_threads
+export interface UserCodeResourceLimits {
+	maxOldGenerationSizeMb?: number; // The main heap
+	maxYoungGenerationSizeMb?: number; // The heap for recently created objects
+	stackSizeMb?: number; // Deeper recursion than fits is reported as a RangeError of the user code
+}
+
+// AST transformers applied while emitting user code, e.g. to add instrumentation or rewrite DSL sugar
+export interface UserCodeTransformers {
+	before?: ts.TransformerFactory<ts.SourceFile>[]; // Applied to the TypeScript AST, before types are erased
+	after?: ts.TransformerFactory<ts.SourceFile>[]; // Applied to the JavaScript AST about to be printed
+	includeAdditionalSourceFiles?: boolean; // Also transform additional source files, defaults to false
 }
 
 export interface UserCodeRunnerOptions {
 	typeErrorCodeMessageMappers?: { [errorCode: number]: (message: string) => string | undefined }; // The error code to message mappers
+	cacheItemStore?: CacheItemStore; // Where preProcessCached stores its results, defaults to an in-memory LRU store
+	compilerOptions?: UserCodeCompilerOptions; // Compiler options used to check and emit user code and additional source files
+	moduleMap?: ModuleMap; // Bare import specifiers for additional source files, e.g. { 'aerie/constraints': 'constraints/index.ts' }
+	language?: UserCodeLanguage; // The language of user code and of the files of user code projects, defaults to 'typescript'
+	transformers?: UserCodeTransformers; // Not part of preProcessCached cache keys, use a separate cache item store per set of transformers
+	policy?: UserCodePolicyOptions; // Constructs forbidden in user code even when it type checks, e.g. { rules: { 'no-debugger': false } }
+	validateOutput?: boolean; // Check the values returned by user code against the declared output type, defaults to false
+	validateArgs?: boolean; // Check the arguments passed to user code against the declared argument types, defaults to false
+	quickFixes?: boolean; // Attach the code fixes TypeScript offers to type errors in user files, defaults to false
+	executor?: UserCodeExecutor; // Where executeUserCode and friends run user code, defaults to 'vm'
+	resourceLimits?: UserCodeResourceLimits; // Only with the 'worker' executor, defaults to the limits of the host process
+	locateTimeouts?: boolean; // Sample the stack while user code runs, so that timeouts report where it was, defaults to false
+	formatOptions?: ts.FormatCodeSettings; // Used by formatUserCode and quick fixes, e.g. { indentSize: 2 }, defaults to those of TypeScript
+}
+
+// Counters describing how much work the compilation cache has saved across preProcess calls
+export interface CompilationCacheStatistics {
+	sourceFileHits: number; // Library and additional source files reused from a previous call
+	sourceFileMisses: number; // Library and additional source files that had to be parsed or replaced
+	diagnosticHits: number; // Source files whose diagnostics were reused from a previous call
+	diagnosticMisses: number; // Source files that had to be type checked
+	programReuses: number; // Programs created with a previous program available for structural reuse
 }
 
 export class UserCodeRunner {
+	private readonly options: UserCodeRunnerOptions;
 	private readonly mapDiagnosticMessage: ReturnType<typeof createMapDiagnosticMessage>;
+	private readonly cacheItemStore: CacheItemStore;
+	private readonly compilerOptions: ts.CompilerOptions;
+	private readonly moduleMap: ModuleMap;
+	private readonly language: UserCodeLanguage;
+	private readonly transformers: UserCodeTransformers;
+	private readonly policyRules: UserCodePolicyRule[];
+	private readonly validateOutput: boolean;
+	private readonly validateArgs: boolean;
+	private readonly quickFixes: boolean;
+	private readonly executor: UserCodeExecutor;
+	private readonly resourceLimits: UserCodeResourceLimits | undefined;
+	private readonly locateTimeouts: boolean;
+	private readonly formatSettings: ts.FormatCodeSettings;
+	private readonly sourceFileCache = new Map<string, ts.SourceFile>();
+	private diagnosticsCache = new WeakMap<ts.SourceFile, readonly ts.Diagnostic[]>();
+	private diagnosticsCacheSourceFiles: readonly ts.SourceFile[] = []; // The library files the diagnostics were found with
+	private transpileCache = new WeakMap<ts.SourceFile, ts.TranspileOutput>();
+	private oldProgram: ts.Program | undefined;
+	private cacheStatistics: CompilationCacheStatistics = UserCodeRunner.emptyCacheStatistics();
 
 	constructor(options?: UserCodeRunnerOptions) {
+		this.options = options ?? {};
 		this.mapDiagnosticMessage = createMapDiagnosticMessage(
 			options?.typeErrorCodeMessageMappers ?? defaultErrorCodeMessageMappers,
 		);
+		this.cacheItemStore = options?.cacheItemStore ?? new InMemoryLRUCacheItemStore();
+		this.language = options?.language ?? 'typescript';
+		this.transformers = options?.transformers ?? {};
+		this.policyRules = createPolicyRules(options?.policy ?? {});
+		this.validateOutput = options?.validateOutput ?? false;
+		this.validateArgs = options?.validateArgs ?? false;
+		this.quickFixes = options?.quickFixes ?? false;
+		this.executor = options?.executor ?? 'vm';
+		this.resourceLimits = options?.resourceLimits;
+		this.locateTimeouts = options?.locateTimeouts ?? false;
+		if (this.resourceLimits !== undefined && this.executor !== 'worker') {
+			throw new Error(`Resource limits require the 'worker' executor`);
+		}
+		this.formatSettings = createFormatCodeSettings(options?.formatOptions ?? {});
+		this.compilerOptions = createCompilerOptions(options?.compilerOptions ?? {}, this.language);
+		this.moduleMap = options?.moduleMap ?? {};
+		validateModuleMap(this.moduleMap);
+	}
+
+	public getCompilationCacheStatistics(): CompilationCacheStatistics {
+		return { ...this.cacheStatistics };
+	}
+
+	public clearCompilationCache(): void {
+		this.sourceFileCache.clear();
+		this.diagnosticsCache = new WeakMap();
+		this.diagnosticsCacheSourceFiles = [];
+		this.transpileCache = new WeakMap();
+		this.oldProgram = undefined;
+		this.cacheStatistics = UserCodeRunner.emptyCacheStatistics();
 	}
 
 	public async preProcess(
@@ -38,56 +288,274 @@ export class UserCodeRunner {
 		outputType: string = 'any',
 		argsTypes: string[] = ['any'],
 		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default', // The export called with the arguments, e.g. 'goal' for `export function goal()`
+		signal?: AbortSignal, // Checked between the phases of the compilation
 	): Promise<Result<CacheItem, UserCodeError[]>> {
-		// TypeCheck and transpile code
-		const userSourceFile = ts.createSourceFile(
+		const userSourceFile = this.createUserSourceFile(USER_CODE_FILENAME, userCode);
+
+		return this.preProcessUserSourceFiles(
+			[userSourceFile],
 			USER_CODE_FILENAME,
+			[{ harnessModuleKey: EXECUTION_HARNESS_FILENAME, exportName, outputType, argsTypes }],
+			additionalSourceFiles,
+			signal,
+		);
+	}
+
+	// Same as preProcess, but for user code split over several files that import each other
+	public async preProcessProject(
+		project: UserCodeProject,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default',
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		validateProject(project, additionalSourceFiles, this.language);
+
+		const userSourceFiles = Object.entries(project.files).map(([fileName, userCode]) =>
+			this.createUserSourceFile(path.posix.normalize(fileName), userCode),
+		);
+
+		return this.preProcessUserSourceFiles(
+			userSourceFiles,
+			getModuleKey(project.entry),
+			[{ harnessModuleKey: EXECUTION_HARNESS_FILENAME, exportName, outputType, argsTypes }],
+			additionalSourceFiles,
+		);
+	}
+
+	// Type check every export in the contract at once, so that any of them can be executed from the same artifacts
+	public async preProcessExports(
+		userCode: string | UserCodeProject,
+		contract: ExportContract,
+		additionalSourceFiles: ts.SourceFile[] = [],
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		if (Object.keys(contract).length === 0) {
+			throw new Error('Export contract must declare at least one export');
+		}
+		const entrypoints = Object.entries(contract).map(([exportName, signature]) => ({
+			harnessModuleKey: getExecutionHarnessModuleKey(exportName),
+			exportName,
+			...toExportSignature(signature),
+		}));
+
+		if (typeof userCode === 'string') {
+			const userSourceFile = this.createUserSourceFile(USER_CODE_FILENAME, userCode);
+			return this.preProcessUserSourceFiles([userSourceFile], USER_CODE_FILENAME, entrypoints, additionalSourceFiles);
+		}
+
+		validateProject(userCode, additionalSourceFiles, this.language);
+		const userSourceFiles = Object.entries(userCode.files).map(([fileName, code]) =>
+			this.createUserSourceFile(path.posix.normalize(fileName), code),
+		);
+		return this.preProcessUserSourceFiles(
+			userSourceFiles,
+			getModuleKey(userCode.entry),
+			entrypoints,
+			additionalSourceFiles,
+		);
+	}
+
+	// Same as preProcess, but checks the export against a signature descriptor instead of raw type strings
+	public async preProcessWithSignature(
+		userCode: string | UserCodeProject,
+		signature: SignatureDescriptor,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default',
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		return this.preProcessExports(userCode, { [exportName]: signature }, additionalSourceFiles);
+	}
+
+	/**
+	 * Transpile each file on its own without type checking, for user code that has already been validated, e.g. by
+	 * preProcess in the editor. Only syntax errors are reported, and the result has typeChecked set to false.
+	 */
+	public async preProcessTranspileOnly(
+		userCode: string | UserCodeProject,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default',
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		let userFiles: [fileName: string, code: string][];
+		let entryModuleKey: string;
+		if (typeof userCode === 'string') {
+			userFiles = [[USER_CODE_FILENAME, userCode]];
+			entryModuleKey = USER_CODE_FILENAME;
+		} else {
+			validateProject(userCode, additionalSourceFiles, this.language);
+			userFiles = Object.entries(userCode.files).map(([fileName, code]) => [path.posix.normalize(fileName), code]);
+			entryModuleKey = getModuleKey(userCode.entry);
+		}
+		// Parents are set so that syntax errors can be reported without a program to bind the files
+		const userSourceFiles = userFiles.map(([fileName, code]) =>
+			ts.createSourceFile(
+				fileName,
+				code,
+				ts.ScriptTarget.ESNext,
+				true,
+				this.language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS,
+			),
+		);
+		const executionHarnessCode = createExecutionHarnessCode(
+			entryModuleKey,
+			{ harnessModuleKey: EXECUTION_HARNESS_FILENAME, exportName, outputType: 'unknown', argsTypes: ['...unknown[]'] },
+			additionalSourceFiles,
+		);
+
+		const jsFileMap = {} as { [key: string]: string };
+		const userFileSourceMaps = {} as { [key: string]: string };
+		const sourceErrors: UserCodeError[] = [];
+		const sources = new Map(userSourceFiles.map(sourceFile => [getModuleKey(sourceFile.fileName), sourceFile]));
+
+		for (const userSourceFile of userSourceFiles) {
+			const moduleKey = getModuleKey(userSourceFile.fileName);
+			const { outputText, sourceMapText, diagnostics } = this.transpileSourceFile(userSourceFile, true, true);
+			for (const diagnostic of diagnostics ?? []) {
+				sourceErrors.push(
+					UserCodeTypeError.new({ ...diagnostic, file: userSourceFile }, sources, undefined, this.mapDiagnosticMessage),
+				);
+			}
+			sourceErrors.push(...this.checkPolicy(userSourceFile));
+			jsFileMap[moduleKey] = outputText;
+			userFileSourceMaps[moduleKey] = JSON.stringify({
+				...JSON.parse(sourceMapText!),
+				sources: [userSourceFile.fileName],
+			});
+		}
+		for (const additionalSourceFile of additionalSourceFiles) {
+			if (additionalSourceFile.isDeclarationFile) continue;
+			const reusedSourceFile = this.reuseSourceFile(additionalSourceFile);
+			let transpileOutput = this.transpileCache.get(reusedSourceFile);
+			if (transpileOutput === undefined) {
+				transpileOutput = this.transpileSourceFile(
+					reusedSourceFile,
+					this.transformers.includeAdditionalSourceFiles ?? false,
+					false,
+				);
+				this.transpileCache.set(reusedSourceFile, transpileOutput);
+			}
+			jsFileMap[getModuleKey(additionalSourceFile.fileName)] = transpileOutput.outputText;
+		}
+		jsFileMap[EXECUTION_HARNESS_FILENAME] = ts.transpileModule(executionHarnessCode, {
+			compilerOptions: this.compilerOptions,
+		}).outputText;
+
+		if (sourceErrors.length > 0) {
+			return Result.Err(sourceErrors);
+		}
+
+		return Result.Ok({
+			jsFileMap,
+			userCodeSourceMap: userFileSourceMaps[entryModuleKey]!,
+			userFileSourceMaps,
+			typeChecked: false,
+			warnings: [],
+			signatures: { [exportName]: { outputType: 'unknown', argsTypes: ['...unknown[]'] } },
+		});
+	}
+
+	// Same as executeUserCode, but without type checking, see preProcessTranspileOnly
+	public async executeUserCodeTranspileOnly<ArgsType extends any[], ReturnType = any>(
+		userCode: string | UserCodeProject,
+		args: ArgsType,
+		timeout: number = 5000,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		context: vm.Context = vm.createContext(),
+		exportName: string = 'default',
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const result = await this.preProcessTranspileOnly(userCode, additionalSourceFiles, exportName);
+
+		if (result.isErr()) {
+			return result;
+		}
+
+		return this.executeCacheItem(result.unwrap(), args, timeout, context, exportName);
+	}
+
+	private checkPolicy(userSourceFile: ts.SourceFile, typeChecker?: ts.TypeChecker): UserCodePolicyError[] {
+		return checkPolicy(userSourceFile, this.policyRules, typeChecker).map(violation =>
+			UserCodePolicyError.new(violation.ruleId, violation.message, violation.node, userSourceFile),
+		);
+	}
+
+	private transpileSourceFile(
+		sourceFile: ts.SourceFile,
+		transform: boolean,
+		checkDeadlines: boolean,
+	): ts.TranspileOutput {
+		return ts.transpileModule(sourceFile.text, {
+			transformers: createCustomTransformers(
+				this.transformers,
+				() => transform,
+				() => checkDeadlines,
+			),
+			compilerOptions: { ...this.compilerOptions, sourceMap: true },
+			// Single file user code has no extension to tell the language by
+			fileName: path.posix.extname(sourceFile.fileName)
+				? sourceFile.fileName
+				: `${sourceFile.fileName}${sourceFile.flags & ts.NodeFlags.JavaScriptFile ? '.js' : '.ts'}`,
+			reportDiagnostics: true,
+		});
+	}
+
+	private createUserSourceFile(fileName: string, userCode: string): ts.SourceFile {
+		return ts.createSourceFile(
+			fileName,
 			userCode,
 			ts.ScriptTarget.ESNext,
-			undefined,
-			ts.ScriptKind.TS,
+			true, // Policy rules look at the parents of nodes, also when user code is only transpiled
+			this.language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS,
 		);
+	}
 
-		const executionCode = `
-			${additionalSourceFiles
-				.map(file => {
-					if (file.fileName.endsWith('.d.ts')) return '';
-					const filenameSansExt = removeExt(file.fileName);
-					return `import '${filenameSansExt}';`;
-				})
-				.join('\n  ')}
-      import defaultExport from '${USER_CODE_FILENAME}';
-            
-      declare global {
-        const __args: [${argsTypes.join(', ')}];
-        let __result: ${outputType} | Promise<${outputType}>;
-      }
-      __result = defaultExport(...__args);
-      
-      if ((__result as any) instanceof Promise) {
-      	__result = await __result;
-      }
-    `;
-
-		const executionSourceFile = ts.createSourceFile(
-			EXECUTION_HARNESS_FILENAME,
-			executionCode,
-			ts.ScriptTarget.ESNext,
-			undefined,
-			ts.ScriptKind.TS,
+	private async preProcessUserSourceFiles(
+		userSourceFiles: ts.SourceFile[],
+		entryModuleKey: string,
+		entrypoints: ExecutionHarnessEntrypoint[],
+		additionalSourceFiles: ts.SourceFile[],
+		signal?: AbortSignal,
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		const entryFileName = userSourceFiles.find(
+			sourceFile => getModuleKey(sourceFile.fileName) === entryModuleKey,
+		)!.fileName;
+		if (await isAborted(signal)) {
+			return Result.Err([UserCodeCancelledError.new('compilation', entryFileName)]);
+		}
+
+		// TypeCheck and transpile code
+		const executionSourceFiles = entrypoints.map(entrypoint =>
+			ts.createSourceFile(
+				entrypoint.harnessModuleKey,
+				createExecutionHarnessCode(entryModuleKey, entrypoint, additionalSourceFiles),
+				ts.ScriptTarget.ESNext,
+				undefined,
+				ts.ScriptKind.TS,
+			),
 		);
 
+		// Source files by the module key that identifies them both to the compiler host and to the vm linker
 		const tsFileMap = new Map<string, ts.SourceFile>();
+		const userModuleKeys = new Set<string>();
 
-		tsFileMap.set(USER_CODE_FILENAME, userSourceFile);
-		tsFileMap.set(EXECUTION_HARNESS_FILENAME, executionSourceFile);
+		for (const userSourceFile of userSourceFiles) {
+			const moduleKey = getModuleKey(userSourceFile.fileName);
+			tsFileMap.set(moduleKey, userSourceFile);
+			userModuleKeys.add(moduleKey);
+		}
+		for (const executionSourceFile of executionSourceFiles) {
+			tsFileMap.set(executionSourceFile.fileName, executionSourceFile);
+		}
 
 		for (const additionalSourceFile of additionalSourceFiles) {
-			tsFileMap.set(removeExt(additionalSourceFile.fileName), additionalSourceFile);
+			tsFileMap.set(getModuleKey(additionalSourceFile.fileName), this.reuseSourceFile(additionalSourceFile));
 		}
+		const fileLookup = new VirtualFileLookup(
+			tsFileMap,
+			this.moduleMap,
+			sourceFile => (sourceFile.flags & ts.NodeFlags.JavaScriptFile) !== 0,
+		);
 
 		const jsFileMap = {} as { [key: string]: string };
-		let userCodeSourceMap: string;
+		const userFileSourceMaps = {} as { [key: string]: string };
 
 		const defaultCompilerHost = ts.createCompilerHost({});
 		const customCompilerHost: ts.CompilerHost = {
@@ -96,23 +564,29 @@ export class UserCodeRunner {
 				return '';
 			},
 			getSourceFile: (fileName, languageVersion) => {
-				const filenameSansExt = removeExt(fileName);
-				if (tsFileMap.has(filenameSansExt)) {
-					return tsFileMap.get(filenameSansExt);
+				const moduleKey = fileLookup.getModuleKeyOfFile(fileName);
+				if (moduleKey !== undefined) {
+					return tsFileMap.get(moduleKey);
 				} else if (fileName.includes('typescript/lib')) {
-					return defaultCompilerHost.getSourceFile(fileName, languageVersion);
+					return this.getLibSourceFile(fileName, languageVersion, defaultCompilerHost);
 				}
 				return undefined;
 			},
-			writeFile: (fileName, data) => {
-				const filenameSansExt = removeExt(fileName);
+			resolveModuleNames: (moduleNames, containingFile) => fileLookup.resolveModuleNames(moduleNames, containingFile),
+			writeFile: (fileName, data, writeByteOrderMark, onError, sourceFiles) => {
+				const sourceFile = sourceFiles?.[0];
+				const moduleKey = sourceFile && fileLookup.getModuleKeyOfFile(sourceFile.fileName);
+				if (moduleKey === undefined) {
+					return;
+				}
 				if (fileName.endsWith('.map')) {
-					if (removeExt(filenameSansExt) === USER_CODE_FILENAME) {
-						userCodeSourceMap = ts.createSourceFile(removeExt(filenameSansExt), data, ts.ScriptTarget.ESNext).text;
+					if (userModuleKeys.has(moduleKey)) {
+						// Name the original file the same way type errors do, instead of relative to the emitted file
+						userFileSourceMaps[moduleKey] = JSON.stringify({ ...JSON.parse(data), sources: [sourceFile!.fileName] });
 					}
 				} else {
-					jsFileMap[filenameSansExt] = ts.createSourceFile(
-						filenameSansExt,
+					jsFileMap[moduleKey] = ts.createSourceFile(
+						moduleKey,
 						data,
 						ts.ScriptTarget.ESNext,
 						undefined,
@@ -121,313 +595,1134 @@ export class UserCodeRunner {
 				}
 			},
 			readFile(fileName: string): string | undefined {
-				const filenameSansExt = removeExt(fileName);
-				if (tsFileMap.has(filenameSansExt)) {
-					return tsFileMap.get(filenameSansExt)!.text;
+				const moduleKey = fileLookup.getModuleKeyOfFile(fileName);
+				if (moduleKey !== undefined) {
+					return tsFileMap.get(moduleKey)!.text;
 				}
 				return defaultCompilerHost.readFile(fileName);
 			},
 			fileExists(fileName: string): boolean {
-				const filenameSansExt = removeExt(fileName);
-				return tsFileMap.has(filenameSansExt);
+				return fileLookup.getModuleKeyOfFile(fileName) !== undefined;
 			},
 		};
 
-		const program = ts.createProgram(
-			[...additionalSourceFiles.map(f => f.fileName), EXECUTION_HARNESS_FILENAME],
-			{
-				target: ts.ScriptTarget.ESNext,
-				module: ts.ModuleKind.ES2022,
-				lib: ['lib.esnext.d.ts'],
-				sourceMap: true,
-			},
-			customCompilerHost,
-		);
+		const program = ts.createProgram(
+			[...additionalSourceFiles.map(f => f.fileName), ...executionSourceFiles.map(f => f.fileName)],
+			this.compilerOptions,
+			customCompilerHost,
+			this.oldProgram,
+		);
+		if (this.oldProgram !== undefined) {
+			this.cacheStatistics.programReuses++;
+		}
+		this.oldProgram = program;
+
+		const typeChecker = program.getTypeChecker();
+
+		const sourceErrors: UserCodeError[] = [];
+		const warnings: UserCodeWarning[] = [];
+		const preEmitDiagnostics = this.getPreEmitDiagnostics(program);
+		if (await isAborted(signal)) {
+			return Result.Err([UserCodeCancelledError.new('compilation', entryFileName)]);
+		}
+
+		const codeFixProvider = this.quickFixes
+			? createCodeFixProvider(
+					program,
+					tsFileMap,
+					this.moduleMap,
+					fileName => userModuleKeys.has(fileLookup.getModuleKeyOfFile(fileName) ?? ''),
+					this.formatSettings,
+			  )
+			: undefined;
+		try {
+			preEmitDiagnostics.forEach(diagnostic => {
+				const warningSeverity = getWarningSeverity(diagnostic);
+				if (diagnostic.file && warningSeverity !== undefined) {
+					// Hints about the harness and library files are of no use to the author of the user code
+					if (userModuleKeys.has(fileLookup.getModuleKeyOfFile(diagnostic.file.fileName) ?? '')) {
+						warnings.push(
+							UserCodeTypeError.newWarning(diagnostic, tsFileMap, this.mapDiagnosticMessage, warningSeverity),
+						);
+					}
+				} else if (diagnostic.file) {
+					sourceErrors.push(
+						UserCodeTypeError.new(
+							diagnostic,
+							tsFileMap,
+							typeChecker,
+							this.mapDiagnosticMessage,
+							codeFixProvider?.getCodeFixes(diagnostic) ?? [],
+						),
+					);
+				} else {
+					const codes = getDiagnosticCodes(diagnostic);
+					if (codes.some(code => ([1420] as integer[]).includes(code))) {
+						// Do Nothing, this is an implicit type library we don't want imported
+					} else {
+						throw new Error(
+							`Unhandled diagnostic: ${diagnostic.code} ${ts.flattenDiagnosticMessageText(
+								diagnostic.messageText,
+								'\n',
+							)}`,
+						);
+					}
+				}
+			});
+		} finally {
+			codeFixProvider?.dispose();
+		}
+
+		// The harness is never transformed, so that it keeps calling the entrypoint the way the type check expects
+		const emitResult = program.emit(
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			createCustomTransformers(
+				this.transformers,
+				sourceFile => {
+					const moduleKey = fileLookup.getModuleKeyOfFile(sourceFile.fileName);
+					if (moduleKey === undefined || moduleKey.startsWith(EXECUTION_HARNESS_FILENAME)) {
+						return false;
+					}
+					return userModuleKeys.has(moduleKey) || (this.transformers.includeAdditionalSourceFiles ?? false);
+				},
+				sourceFile => {
+					const moduleKey = fileLookup.getModuleKeyOfFile(sourceFile.fileName);
+					return moduleKey !== undefined && userModuleKeys.has(moduleKey);
+				},
+			),
+		);
+
+		emitResult.diagnostics.forEach(diagnostic => {
+			if (diagnostic.file) {
+				sourceErrors.push(UserCodeTypeError.new(diagnostic, tsFileMap, typeChecker, this.mapDiagnosticMessage));
+			} else {
+				throw new Error(
+					`Unhandled diagnostic: ${diagnostic.code} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
+				);
+			}
+		});
+
+		for (const userSourceFile of userSourceFiles) {
+			sourceErrors.push(...this.checkPolicy(userSourceFile, typeChecker));
+		}
+
+		if (await isAborted(signal)) {
+			return Result.Err([UserCodeCancelledError.new('compilation', entryFileName)]);
+		}
+		if (sourceErrors.length > 0) {
+			return Result.Err(sourceErrors);
+		}
+
+		const isAdditionalSourceFile = (sourceFile: ts.SourceFile) => {
+			const moduleKey = fileLookup.getModuleKeyOfFile(sourceFile.fileName);
+			return (
+				moduleKey !== undefined && !userModuleKeys.has(moduleKey) && !moduleKey.startsWith(EXECUTION_HARNESS_FILENAME)
+			);
+		};
+		for (const userSourceFile of userSourceFiles) {
+			for (const diagnostic of getDeprecationDiagnostics(userSourceFile, typeChecker, isAdditionalSourceFile)) {
+				warnings.push(UserCodeTypeError.newWarning(diagnostic, tsFileMap, this.mapDiagnosticMessage, 'warning'));
+			}
+		}
+
+		let outputSchemas: { [exportName: string]: UserCodeOutputSchema } | undefined;
+		if (this.validateOutput) {
+			outputSchemas = {};
+			for (const { harnessModuleKey, exportName } of entrypoints) {
+				outputSchemas[exportName] = {
+					type: createTypeSchema(getDeclaredOutputType(tsFileMap.get(harnessModuleKey)!, typeChecker), typeChecker),
+					location: getReturnLocation(tsFileMap.get(entryModuleKey)!, exportName, typeChecker),
+				};
+			}
+		}
+
+		const signatures: { [exportName: string]: UserCodeSignature } = {};
+		for (const { harnessModuleKey, exportName, outputType, argsTypes } of entrypoints) {
+			signatures[exportName] = { outputType, argsTypes };
+			if (this.validateArgs) {
+				signatures[exportName].argsSchema = createTypeSchema(
+					getDeclaredArgsType(tsFileMap.get(harnessModuleKey)!, typeChecker),
+					typeChecker,
+				);
+			}
+		}
+
+		return Result.Ok({
+			jsFileMap,
+			userCodeSourceMap: userFileSourceMaps[entryModuleKey]!,
+			userFileSourceMaps,
+			typeChecked: true,
+			warnings,
+			outputSchemas,
+			signatures,
+		});
+	}
+
+	/**
+	 * Remove the unused imports of user code, sort the others and format it with the configured formatOptions, in the same
+	 * environment that preProcess checks it in. Stored user code formatted this way stays in a canonical format.
+	 */
+	public async formatUserCode(userCode: string, additionalSourceFiles: ts.SourceFile[] = []): Promise<string> {
+		const languageService = new UserCodeLanguageService(this.options);
+		try {
+			languageService.update(userCode, 'any', ['any'], additionalSourceFiles);
+			const organizedUserCode = applyTextEdits(userCode, languageService.getOrganizeImportsEdits(), USER_CODE_FILENAME);
+			languageService.update(organizedUserCode, 'any', ['any'], additionalSourceFiles);
+			return applyTextEdits(organizedUserCode, languageService.getFormattingEdits(), USER_CODE_FILENAME);
+		} finally {
+			languageService.dispose();
+		}
+	}
+
+	// Same as preProcess, but successful results are looked up in and saved to the configured CacheItemStore
+	public async preProcessCached(
+		userCode: string,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		additionalSourceFiles: ts.SourceFile[] = [],
+		exportName: string = 'default',
+	): Promise<Result<CacheItem, UserCodeError[]>> {
+		const key = UserCodeRunner.createCacheKey(
+			userCode,
+			outputType,
+			argsTypes,
+			additionalSourceFiles,
+			this.compilerOptions,
+			this.moduleMap,
+			exportName,
+			this.policyRules,
+		);
+		const cachedItem = await this.cacheItemStore.get(key);
+		// Items cached by a runner that did not validate output or arguments lack the schemas this runner needs
+		if (
+			cachedItem !== undefined &&
+			(!this.validateOutput || cachedItem.outputSchemas !== undefined) &&
+			(!this.validateArgs || Object.values(cachedItem.signatures).every(s => s.argsSchema !== undefined))
+		) {
+			return Result.Ok(cachedItem);
+		}
+
+		const result = await this.preProcess(userCode, outputType, argsTypes, additionalSourceFiles, exportName);
+		if (result.isOk()) {
+			await this.cacheItemStore.set(key, result.unwrap());
+		}
+		return result;
+	}
+
+	public static createCacheKey(
+		userCode: string,
+		outputType: string,
+		argsTypes: string[],
+		additionalSourceFiles: ts.SourceFile[],
+		compilerOptions: ts.CompilerOptions = DEFAULT_COMPILER_OPTIONS,
+		moduleMap: ModuleMap = {},
+		exportName: string = 'default',
+		policyRules: UserCodePolicyRule[] = builtInPolicyRules, // The enabled rules, user code only passed the rules it was checked by
+	): string {
+		return crypto
+			.createHash('sha256')
+			.update(
+				JSON.stringify({
+					runnerVersion: RUNNER_VERSION,
+					typescriptVersion: ts.version,
+					userCode,
+					outputType,
+					argsTypes,
+					compilerOptions,
+					moduleMap,
+					exportName,
+					policyRules: policyRules.map(rule => [rule.id, rule.version]),
+					additionalSourceFiles: additionalSourceFiles.map(file => [file.fileName, file.text]),
+				}),
+			)
+			.digest('hex');
+	}
+
+	// Same as executeUserCode, but the value returned by the user code comes with the warnings of its compilation
+	public async executeUserCodeWithWarnings<ArgsType extends any[], ReturnType = any>(
+		userCode: string,
+		args: ArgsType,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		timeout: number = 5000,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		context: vm.Context = vm.createContext(),
+		exportName: string = 'default',
+	): Promise<Result<UserCodeOutput<ReturnType>, UserCodeError[]>> {
+		const result = await this.preProcess(userCode, outputType, argsTypes, additionalSourceFiles, exportName);
+
+		if (result.isErr()) {
+			return result;
+		}
+
+		const cacheItem = result.unwrap();
+
+		const executionResult = await this.executeCacheItem<ArgsType, ReturnType>(
+			cacheItem,
+			args,
+			timeout,
+			context,
+			exportName,
+		);
+		return executionResult.map(value => ({ value, warnings: cacheItem.warnings }));
+	}
+
+	public async executeUserCode<ArgsType extends any[], ReturnType = any>(
+		userCode: string,
+		args: ArgsType,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		timeout: number = 5000,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		context: vm.Context = vm.createContext(),
+		exportName: string = 'default',
+		signal?: AbortSignal, // Stops the compilation or execution, which then results in a UserCodeCancelledError
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const result = await this.preProcess(userCode, outputType, argsTypes, additionalSourceFiles, exportName, signal);
+
+		if (result.isErr()) {
+			return result;
+		}
+
+		return this.executeCacheItem(result.unwrap(), args, timeout, context, exportName, signal);
+	}
+
+	public async executeUserCodeProject<ArgsType extends any[], ReturnType = any>(
+		project: UserCodeProject,
+		args: ArgsType,
+		outputType: string = 'any',
+		argsTypes: string[] = ['any'],
+		timeout: number = 5000,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		context: vm.Context = vm.createContext(),
+		exportName: string = 'default',
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const result = await this.preProcessProject(project, outputType, argsTypes, additionalSourceFiles, exportName);
+
+		if (result.isErr()) {
+			return result;
+		}
+
+		return this.executeCacheItem(result.unwrap(), args, timeout, context, exportName);
+	}
+
+	// Same as executeUserCode, but the argument and return types are taken from a signature made with defineSignature
+	public async executeUserCodeWithSignature<ArgsType extends any[], ReturnType>(
+		userCode: string | UserCodeProject,
+		signature: Signature<ArgsType, ReturnType>,
+		args: ArgsType,
+		timeout: number = 5000,
+		additionalSourceFiles: ts.SourceFile[] = [],
+		context: vm.Context = vm.createContext(),
+		exportName: string = 'default',
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const result = await this.preProcessWithSignature(userCode, signature, additionalSourceFiles, exportName);
+
+		if (result.isErr()) {
+			return result;
+		}
+
+		return this.executeCacheItem(result.unwrap(), args, timeout, context, exportName);
+	}
+
+	// Same as ts.getPreEmitDiagnostics, except that diagnostics for source files carried over from a previous call are reused
+	private getPreEmitDiagnostics(program: ts.Program): readonly ts.Diagnostic[] {
+		// The diagnostics of a file depend on the files it imports, so they are only reused while all library files are the
+		// same, otherwise the old program still saves rechecking what it can
+		const librarySourceFiles = program
+			.getSourceFiles()
+			.filter(sourceFile => this.sourceFileCache.get(sourceFile.fileName) === sourceFile);
+		if (
+			librarySourceFiles.length !== this.diagnosticsCacheSourceFiles.length ||
+			librarySourceFiles.some((sourceFile, index) => sourceFile !== this.diagnosticsCacheSourceFiles[index])
+		) {
+			this.diagnosticsCache = new WeakMap();
+			this.diagnosticsCacheSourceFiles = librarySourceFiles;
+		}
+
+		const diagnostics: ts.Diagnostic[] = [
+			...program.getConfigFileParsingDiagnostics(),
+			...program.getOptionsDiagnostics(),
+		];
+		for (const sourceFile of program.getSourceFiles()) {
+			let sourceFileDiagnostics = this.diagnosticsCache.get(sourceFile);
+			if (sourceFileDiagnostics === undefined) {
+				this.cacheStatistics.diagnosticMisses++;
+				sourceFileDiagnostics = [
+					...program.getSyntacticDiagnostics(sourceFile),
+					...program.getSemanticDiagnostics(sourceFile),
+				];
+				// Only files that outlive this call are worth remembering
+				if (this.sourceFileCache.get(sourceFile.fileName) === sourceFile) {
+					this.diagnosticsCache.set(sourceFile, sourceFileDiagnostics);
+				}
+			} else {
+				this.cacheStatistics.diagnosticHits++;
+			}
+			diagnostics.push(...sourceFileDiagnostics);
+		}
+		diagnostics.push(...program.getGlobalDiagnostics());
+		return ts.sortAndDeduplicateDiagnostics(diagnostics);
+	}
+
+	// Swap a caller provided source file for an identical one from a previous call so the old program can reuse it
+	private reuseSourceFile(sourceFile: ts.SourceFile): ts.SourceFile {
+		const cachedSourceFile = this.sourceFileCache.get(sourceFile.fileName);
+		if (cachedSourceFile !== undefined && cachedSourceFile.text === sourceFile.text) {
+			this.cacheStatistics.sourceFileHits++;
+			return cachedSourceFile;
+		}
+		this.cacheStatistics.sourceFileMisses++;
+		this.sourceFileCache.set(sourceFile.fileName, sourceFile);
+		return sourceFile;
+	}
+
+	private getLibSourceFile(
+		fileName: string,
+		languageVersion: ts.ScriptTarget | ts.CreateSourceFileOptions,
+		defaultCompilerHost: ts.CompilerHost,
+	): ts.SourceFile | undefined {
+		const cachedSourceFile = this.sourceFileCache.get(fileName);
+		if (cachedSourceFile !== undefined) {
+			this.cacheStatistics.sourceFileHits++;
+			return cachedSourceFile;
+		}
+		this.cacheStatistics.sourceFileMisses++;
+		const sourceFile = defaultCompilerHost.getSourceFile(fileName, languageVersion);
+		if (sourceFile !== undefined) {
+			this.sourceFileCache.set(fileName, sourceFile);
+		}
+		return sourceFile;
+	}
+
+	private static emptyCacheStatistics(): CompilationCacheStatistics {
+		return {
+			sourceFileHits: 0,
+			sourceFileMisses: 0,
+			diagnosticHits: 0,
+			diagnosticMisses: 0,
+			programReuses: 0,
+		};
+	}
+
+	/**
+	 * Execute the artifacts of any preProcess method, checking the arguments against the signature they were compiled
+	 * with when it has an argsSchema and the returned value against the outputSchemas when there are any
+	 */
+	public async executeCacheItem<ArgsType extends any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		args: ArgsType,
+		timeout: number = 5000,
+		context: vm.Context = vm.createContext(),
+		exportName?: string, // Which export to call, only optional if the artifacts have a single one
+		signal?: AbortSignal,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const exportNames = Object.keys(cacheItem.signatures);
+		const calledExportName = exportName ?? (exportNames.length === 1 ? exportNames[0] : undefined);
+		const signature = calledExportName === undefined ? undefined : cacheItem.signatures[calledExportName];
+		if (signature?.argsSchema !== undefined) {
+			const mismatch = validateTypeSchema(args, signature.argsSchema);
+			if (mismatch !== undefined) {
+				return Result.Err([HostArgumentError.new(mismatch, signature.argsTypes, args.length)]);
+			}
+		}
+
+		// Artifacts of a single export have one harness, those of preProcessExports have one per export
+		const harnessExportName = EXECUTION_HARNESS_FILENAME in cacheItem.jsFileMap ? undefined : calledExportName;
+		return this.executeArtifacts(
+			cacheItem.jsFileMap,
+			cacheItem.userFileSourceMaps,
+			JSON.parse(cacheItem.userCodeSourceMap).sources[0],
+			args,
+			timeout,
+			context,
+			harnessExportName,
+			calledExportName === undefined ? undefined : cacheItem.outputSchemas?.[calledExportName],
+			signal,
+		);
+	}
+
+	public async executeUserCodeFromArtifacts<ArgsType extends any[], ReturnType = any>(
+		jsFileMap: { [key: string]: string },
+		sourceMap: string | { [key: string]: string }, // The userCodeSourceMap of single file user code, otherwise the userFileSourceMaps
+		args: ArgsType,
+		timeout: number = 5000,
+		context: vm.Context = vm.createContext(),
+		exportName?: string, // Which export of artifacts from preProcessExports to call
+		outputValidator?: UserCodeOutputValidator, // E.g. the outputSchemas entry of the export, when validating output
+		signal?: AbortSignal, // Terminates the worker of the 'worker' executor, the 'vm' executor stops the user code at its next deadline check
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		// Which of the userFileSourceMaps is that of the entry file is not known here, unlike in executeCacheItem
+		return this.executeArtifacts(
+			jsFileMap,
+			typeof sourceMap === 'string' ? { [USER_CODE_FILENAME]: sourceMap } : sourceMap,
+			USER_CODE_FILENAME,
+			args,
+			timeout,
+			context,
+			exportName,
+			outputValidator,
+			signal,
+		);
+	}
+
+	private async executeArtifacts<ReturnType>(
+		jsFileMap: { [key: string]: string },
+		sourceMaps: { [key: string]: string },
+		entryFileName: string, // Where errors that are not located in the user code are reported
+		args: unknown[],
+		timeout: number,
+		context: vm.Context,
+		exportName: string | undefined,
+		outputValidator: UserCodeOutputValidator | undefined,
+		signal: AbortSignal | undefined,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const harnessModuleKey =
+			exportName === undefined ? EXECUTION_HARNESS_FILENAME : getExecutionHarnessModuleKey(exportName);
+		if (!(harnessModuleKey in jsFileMap)) {
+			throw new Error(
+				exportName === undefined
+					? 'No execution harness found, artifacts from preProcessExports require an export name'
+					: `No execution harness found for export: ${exportName}`,
+			);
+		}
+
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancelledError.new('execution', entryFileName)]);
+		}
+
+		const userModuleKeys = this.locateTimeouts ? Object.keys(sourceMaps) : undefined;
+		const start = Date.now();
+		try {
+			const result =
+				this.executor === 'worker'
+					? await executeInWorker(
+							{
+								jsFileMap,
+								harnessModuleKey,
+								args,
+								contextGlobals: { ...context },
+								timeout,
+								moduleMap: this.moduleMap,
+								userModuleKeys,
+							},
+							this.resourceLimits,
+							signal,
+					  )
+					: await executeInContext(
+							jsFileMap,
+							harnessModuleKey,
+							args,
+							context,
+							timeout,
+							this.moduleMap,
+							signal,
+							userModuleKeys,
+					  );
+			if (outputValidator !== undefined) {
+				const validation = validateOutput(result, outputValidator);
+				if (!validation.valid) {
+					return Result.Err([
+						UserCodeOutputError.new(
+							validation.mismatch,
+							typeof outputValidator === 'function' ? undefined : outputValidator.location,
+						),
+					]);
+				}
+			}
+			return Result.Ok(result as ReturnType);
+		} catch (error: any) {
+			if (error instanceof ExecutionCancelledError) {
+				return Result.Err([UserCodeCancelledError.new('execution', entryFileName)]);
+			}
+			if (error instanceof ExecutionTimeoutError) {
+				const lastUserCodeLocation =
+					error.lastUserCodeFrame === undefined
+						? undefined
+						: await getOriginalLocation(error.lastUserCodeFrame, sourceMaps);
+				return Result.Err([
+					UserCodeTimeoutError.new(timeout, error.phase, Date.now() - start, lastUserCodeLocation, entryFileName),
+				]);
+			}
+			if (error instanceof ResourceLimitExceededError) {
+				return Result.Err([UserCodeResourceLimitError.new(this.resourceLimits ?? {}, entryFileName)]);
+			}
+			if (error instanceof UncloneableInputError) {
+				return Result.Err([HostCloneError.new(error.input, error.message)]);
+			}
+			if (error instanceof UncloneableResultError) {
+				return Result.Err([
+					UserCodeOutputError.new(
+						undefined,
+						typeof outputValidator === 'object' ? outputValidator.location : undefined,
+						`The value cannot be copied out of the worker: ${error.message}`,
+					),
+				]);
+			}
+			const sourceMapConsumers = new Map<string, SourceMapConsumer>();
+			for (const [moduleKey, userFileSourceMap] of Object.entries(sourceMaps)) {
+				sourceMapConsumers.set(moduleKey, await new SourceMapConsumer(userFileSourceMap));
+			}
+			return Result.Err([UserCodeRuntimeError.new(error as Error, sourceMapConsumers)]);
+		}
+	}
+}
+
+// Base error type for the User Code Runner
+export abstract class UserCodeError {
+	// Simple Error Message
+	public abstract get message(): string;
+
+	// Stack of the Error
+	public abstract get stack(): string;
+
+	// Location in the source code where the error occurred
+	public abstract get location(): UserCodeLocation;
+
+	protected static getDescendentNodes<T extends ts.Node>(node: ts.Node, guard: TypeGuard<ts.Node, T>): T[] {
+		const nodeList: T[] = [];
+		if (guard(node)) {
+			nodeList.push(node);
+			return nodeList;
+		}
+		for (const child of node.getChildren()) {
+			nodeList.push(...UserCodeError.getDescendentNodes(child, guard));
+		}
+		return nodeList;
+	}
+
+	protected static getDescendentAtLocation(node: ts.Node, start: number, end: number): ts.Node {
+		if (node.getStart() === start && node.getEnd() === end) {
+			return node;
+		}
+		for (const child1 of node.getChildren()) {
+			if (child1.getStart() <= start && end <= child1.getEnd()) {
+				return UserCodeError.getDescendentAtLocation(child1, start, end);
+			}
+		}
+		return node;
+	}
+
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+	} {
+		return {
+			message: this.message,
+			stack: this.stack,
+			location: this.location,
+		};
+	}
+
+	public toString(): string {
+		return `${this.message}\n${this.stack}`;
+	}
+}
+
+// Pretty print type errors with indicators under the offending code
+export class UserCodeTypeError extends UserCodeError {
+	protected constructor(
+		protected diagnostic: ts.Diagnostic,
+		protected sources: Map<string, ts.SourceFile>,
+		protected typeChecker: ts.TypeChecker | undefined, // Undefined for syntax errors found without a program
+		protected mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		protected codeFixes: UserCodeFix[] = [], // Only with UserCodeRunnerOptions.quickFixes
+	) {
+		super();
+	}
+
+	// Edits that remedy the error, e.g. adding a missing import
+	public get fixes(): UserCodeFix[] {
+		return this.codeFixes;
+	}
+
+	public get message(): string {
+		return `TypeError: TS${this.diagnostic.code} ${this.mapDiagnosticMessage(this.diagnostic).join('\n')}`;
+	}
+
+	public get stack(): string {
+		const diagnosticNode = UserCodeError.getDescendentAtLocation(
+			this.diagnostic.file!,
+			this.diagnostic.start!,
+			this.diagnostic.start! + this.diagnostic.length!,
+		);
+		if (diagnosticNode === null) {
+			throw new Error(`Could not find node for diagnostic ${this.diagnostic.messageText}`);
+		}
+		const functionDeclaration = ts.findAncestor(diagnosticNode, ts.isFunctionLike) as
+			| ts.FunctionDeclaration
+			| undefined;
+
+		return `at ${functionDeclaration?.name?.getText() ?? ''}(${formatLocation(this.location)})`;
+	}
+
+	public get location(): UserCodeLocation {
+		if (this.diagnostic.start === undefined) {
+			throw new Error('Could not find start position');
+		}
+		const location = this.diagnostic.file!.getLineAndCharacterOfPosition(this.diagnostic.start);
+		return {
+			fileName: this.diagnostic.file!.fileName,
+			line: location.line + 1,
+			column: location.character + 1,
+		};
+	}
+
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		fixes: UserCodeFix[];
+	} {
+		return { ...super.toJSON(), fixes: this.fixes };
+	}
+
+	public static newWarning(
+		diagnostic: ts.Diagnostic,
+		sources: Map<string, ts.SourceFile>,
+		mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		severity: UserCodeWarningSeverity,
+	): UserCodeWarning {
+		const error = new UserCodeTypeError(diagnostic, sources, undefined, mapDiagnosticMessage);
+		return {
+			severity,
+			message: `TS${diagnostic.code} ${mapDiagnosticMessage(diagnostic).join('\n')}`,
+			stack: error.stack,
+			location: error.location,
+		};
+	}
+
+	public static new(
+		diagnostic: ts.Diagnostic,
+		sources: Map<string, ts.SourceFile>,
+		typeChecker: ts.TypeChecker | undefined,
+		mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		fixes: UserCodeFix[] = [],
+	): UserCodeError {
+		if (
+			typeChecker !== undefined &&
+			removeExt(diagnostic.file?.fileName ?? '').startsWith(EXECUTION_HARNESS_FILENAME)
+		) {
+			return new ExecutionHarnessTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+		}
+		return new UserCodeTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage, fixes);
+	}
+}
+
+// Constructs that type check but are forbidden by the policy of the runner, e.g. calls to eval
+export class UserCodePolicyError extends UserCodeError {
+	protected constructor(
+		public readonly ruleId: string,
+		protected policyMessage: string,
+		protected node: ts.Node,
+		protected sourceFile: ts.SourceFile,
+	) {
+		super();
+	}
+
+	public get message(): string {
+		return `PolicyError: ${this.policyMessage} (${this.ruleId})`;
+	}
+
+	public get stack(): string {
+		const functionDeclaration = ts.findAncestor(this.node, ts.isFunctionLike) as ts.FunctionDeclaration | undefined;
+		return `at ${functionDeclaration?.name?.getText(this.sourceFile) ?? ''}(${formatLocation(this.location)})`;
+	}
+
+	public get location(): UserCodeLocation {
+		const location = this.sourceFile.getLineAndCharacterOfPosition(this.node.getStart(this.sourceFile));
+		return {
+			fileName: this.sourceFile.fileName,
+			line: location.line + 1,
+			column: location.character + 1,
+		};
+	}
+
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		ruleId: string;
+	} {
+		return { ...super.toJSON(), ruleId: this.ruleId };
+	}
+
+	public static new(ruleId: string, message: string, node: ts.Node, sourceFile: ts.SourceFile): UserCodePolicyError {
+		return new UserCodePolicyError(ruleId, message, node, sourceFile);
+	}
+}
+
+// A value returned by user code that does not match the declared output type, which casts and any let through
+export class UserCodeOutputError extends UserCodeError {
+	protected constructor(
+		protected mismatch: TypeSchemaMismatch | undefined, // Undefined when a type guard rejected the value
+		protected returnLocation: UserCodeLocation | undefined,
+		protected reason: string = 'The value was rejected by the output validator.', // Why a value without a mismatch is wrong
+	) {
+		super();
+	}
+
+	// Property names and array indices from the returned value to the offending value
+	public get path(): (string | number)[] {
+		return this.mismatch?.path ?? [];
+	}
+
+	public get message(): string {
+		if (this.mismatch === undefined) {
+			return `OutputError: Incorrect return value. ${this.reason}`;
+		}
+		return `OutputError: Incorrect return value at '${formatTypeSchemaPath(this.mismatch.path)}'. Expected: '${
+			this.mismatch.expected
+		}', Actual: '${this.mismatch.actual}'.`;
+	}
+
+	public get stack(): string {
+		return `at (${formatLocation(this.location)})`;
+	}
+
+	public get location(): UserCodeLocation {
+		return this.returnLocation ?? { fileName: USER_CODE_FILENAME, line: 1, column: 1 };
+	}
+
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		path: (string | number)[];
+	} {
+		return { ...super.toJSON(), path: this.path };
+	}
+
+	public static new(
+		mismatch: TypeSchemaMismatch | undefined,
+		returnLocation: UserCodeLocation | undefined,
+		reason?: string,
+	): UserCodeOutputError {
+		return new UserCodeOutputError(mismatch, returnLocation, reason);
+	}
+}
+
+/**
+ * Arguments given by the host that do not match the argument types the user code was compiled with, e.g. when stored
+ * artifacts are run with inputs of a newer version of the host. The user code is not run, so there is no user location.
+ */
+export class HostArgumentError extends UserCodeError {
+	protected constructor(
+		protected mismatch: TypeSchemaMismatch,
+		public readonly argsTypes: string[], // The argument types recorded in the signature of the artifacts
+		protected argsCount: number,
+	) {
+		super();
+	}
+
+	// Property names and array indices from the arguments array to the offending value
+	public get path(): (string | number)[] {
+		return this.mismatch.path;
+	}
+
+	public get message(): string {
+		const expected = `[${this.argsTypes.join(', ')}]`;
+		if (this.mismatch.path.length === 0) {
+			return `ArgumentError: Incorrect number of arguments. Expected: '${expected}', Actual: ${this.argsCount} arguments.`;
+		}
+		return `ArgumentError: Incorrect argument at '${formatTypeSchemaPath(this.mismatch.path)}'. Expected: '${
+			this.mismatch.expected
+		}', Actual: '${this.mismatch.actual}'. The user code was compiled for arguments '${expected}'.`;
+	}
+
+	public get stack(): string {
+		return `at (${formatLocation(this.location)})`;
+	}
+
+	public get location(): UserCodeLocation {
+		return { fileName: EXECUTION_HARNESS_FILENAME, line: 1, column: 1 };
+	}
+
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		path: (string | number)[];
+	} {
+		return { ...super.toJSON(), path: this.path };
+	}
+
+	public static new(mismatch: TypeSchemaMismatch, argsTypes: string[], argsCount: number): HostArgumentError {
+		return new HostArgumentError(mismatch, argsTypes, argsCount);
+	}
+}
+
+/**
+ * An argument or a global of the context given by the host that cannot be copied into the worker of the 'worker'
+ * executor, e.g. a function. The user code is not run, so there is no user location.
+ */
+export class HostCloneError extends UserCodeError {
+	protected constructor(
+		public readonly input: string, // Which input could not be cloned, e.g. "argument 0" or "context global 'log'"
+		protected cloneErrorMessage: string,
+	) {
+		super();
+	}
+
+	public get message(): string {
+		return `CloneError: The ${this.input} cannot be copied into the worker: ${this.cloneErrorMessage}`;
+	}
 
-		const typeChecker = program.getTypeChecker();
+	public get stack(): string {
+		return `at (${formatLocation(this.location)})`;
+	}
 
-		const sourceErrors: UserCodeError[] = [];
-		ts.getPreEmitDiagnostics(program).forEach(diagnostic => {
-			if (diagnostic.file) {
-				sourceErrors.push(UserCodeTypeError.new(diagnostic, tsFileMap, typeChecker, this.mapDiagnosticMessage));
-			} else {
-				const codes = getDiagnosticCodes(diagnostic);
-				if (codes.some(code => ([1420] as integer[]).includes(code))) {
-					// Do Nothing, this is an implicit type library we don't want imported
-				} else {
-					throw new Error(
-						`Unhandled diagnostic: ${diagnostic.code} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
-					);
-				}
-			}
-		});
+	public get location(): UserCodeLocation {
+		return { fileName: EXECUTION_HARNESS_FILENAME, line: 1, column: 1 };
+	}
 
-		const emitResult = program.emit();
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		input: string;
+	} {
+		return { ...super.toJSON(), input: this.input };
+	}
 
-		emitResult.diagnostics.forEach(diagnostic => {
-			if (diagnostic.file) {
-				sourceErrors.push(UserCodeTypeError.new(diagnostic, tsFileMap, typeChecker, this.mapDiagnosticMessage));
-			} else {
-				throw new Error(
-					`Unhandled diagnostic: ${diagnostic.code} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
-				);
-			}
-		});
+	public static new(input: string, cloneErrorMessage: string): HostCloneError {
+		return new HostCloneError(input, cloneErrorMessage);
+	}
+}
 
-		if (sourceErrors.length > 0) {
-			return Result.Err(sourceErrors);
-		}
+// User code that did not finish within the timeout of its execution
+export class UserCodeTimeoutError extends UserCodeError {
+	protected constructor(
+		protected timeout: number,
+		protected executionPhase: UserCodeExecutionPhase,
+		protected elapsedTime: number,
+		protected lastUserCodeLocation: UserCodeLocation | undefined,
+		protected entryFileName: string,
+	) {
+		super();
+	}
 
-		return Result.Ok({
-			jsFileMap,
-			userCodeSourceMap: userCodeSourceMap!,
-		});
+	// The timeout of the execution in milliseconds
+	public get limit(): number {
+		return this.timeout;
 	}
 
-	public async executeUserCode<ArgsType extends any[], ReturnType = any>(
-		userCode: string,
-		args: ArgsType,
-		outputType: string = 'any',
-		argsTypes: string[] = ['any'],
-		timeout: number = 5000,
-		additionalSourceFiles: ts.SourceFile[] = [],
-		context: vm.Context = vm.createContext(),
-	): Promise<Result<ReturnType, UserCodeError[]>> {
-		const result = await this.preProcess(userCode, outputType, argsTypes, additionalSourceFiles);
+	public get phase(): UserCodeExecutionPhase {
+		return this.executionPhase;
+	}
 
-		if (result.isErr()) {
-			return result;
-		}
+	// Milliseconds from the start of the execution until it was stopped, at least the limit
+	public get elapsed(): number {
+		return this.elapsedTime;
+	}
 
-		const { jsFileMap, userCodeSourceMap } = result.unwrap();
+	public get message(): string {
+		return `TimeoutError: Execution timed out after ${this.timeout}ms while ${
+			this.executionPhase === 'evaluation' ? 'running the user code' : 'awaiting the result of the user code'
+		}.`;
+	}
 
-		return this.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, args, timeout, context);
+	public get stack(): string {
+		return `at (${formatLocation(this.location)})`;
 	}
 
-	public async executeUserCodeFromArtifacts<ArgsType extends any[], ReturnType = any>(
-		jsFileMap: { [key: string]: string },
-		sourceMap: string,
-		args: ArgsType,
-		timeout: number = 5000,
-		context: vm.Context = vm.createContext(),
-	): Promise<Result<ReturnType, UserCodeError[]>> {
-		// Put args and result into context
-		context.__args = args;
-		context.__result = undefined;
-
-		// Create modules for VM
-		const moduleCache = new Map<string, vm.Module>();
-		for (const [fileName, content] of Object.entries(jsFileMap)) {
-			moduleCache.set(
-				fileName,
-				new vm.SourceTextModule(content, {
-					identifier: fileName,
-					context,
-				}),
-			);
-		}
-		const harnessModule = moduleCache.get(EXECUTION_HARNESS_FILENAME)!;
-		await harnessModule.link(specifier => {
-			const filenameSansExt = removeExt(specifier);
-			if (moduleCache.has(filenameSansExt)) {
-				return moduleCache.get(filenameSansExt)!;
-			}
-			throw new Error(`Unable to resolve dependency: ${specifier}`);
-		});
+	// Where the user code was last seen running, with the locateTimeouts option, otherwise the start of the entry file
+	public get location(): UserCodeLocation {
+		return this.lastUserCodeLocation ?? { fileName: this.entryFileName, line: 1, column: 1 };
+	}
 
-		try {
-			await harnessModule.evaluate({
-				timeout,
-			});
-			const result = context.__result;
-			delete context.__args;
-			delete context.__result;
-			return Result.Ok(result);
-		} catch (error: any) {
-			return Result.Err([UserCodeRuntimeError.new(error as Error, await new SourceMapConsumer(sourceMap))]);
-		}
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		limit: number;
+		phase: UserCodeExecutionPhase;
+		elapsed: number;
+	} {
+		return { ...super.toJSON(), limit: this.limit, phase: this.phase, elapsed: this.elapsed };
+	}
+
+	public static new(
+		timeout: number,
+		phase: UserCodeExecutionPhase,
+		elapsed: number,
+		lastUserCodeLocation?: UserCodeLocation,
+		entryFileName: string = USER_CODE_FILENAME,
+	): UserCodeTimeoutError {
+		return new UserCodeTimeoutError(timeout, phase, elapsed, lastUserCodeLocation, entryFileName);
 	}
 }
 
-// Base error type for the User Code Runner
-export abstract class UserCodeError {
-	// Simple Error Message
-	public abstract get message(): string;
+// User code whose compilation or execution was stopped by the AbortSignal of the call
+export class UserCodeCancelledError extends UserCodeError {
+	protected constructor(protected cancellationPhase: UserCodeCancellationPhase, protected entryFileName: string) {
+		super();
+	}
 
-	// Stack of the Error
-	public abstract get stack(): string;
+	public get phase(): UserCodeCancellationPhase {
+		return this.cancellationPhase;
+	}
 
-	// Location in the source code where the error occurred
-	public abstract get location(): { line: number; column: number };
+	public get message(): string {
+		return `CancelledError: The ${this.cancellationPhase} of the user code was cancelled.`;
+	}
 
-	protected static getDescendentNodes<T extends ts.Node>(node: ts.Node, guard: TypeGuard<ts.Node, T>): T[] {
-		const nodeList: T[] = [];
-		if (guard(node)) {
-			nodeList.push(node);
-			return nodeList;
-		}
-		for (const child of node.getChildren()) {
-			nodeList.push(...UserCodeError.getDescendentNodes(child, guard));
-		}
-		return nodeList;
+	public get stack(): string {
+		return `at (${formatLocation(this.location)})`;
 	}
 
-	protected static getDescendentAtLocation(node: ts.Node, start: number, end: number): ts.Node {
-		if (node.getStart() === start && node.getEnd() === end) {
-			return node;
-		}
-		for (const child1 of node.getChildren()) {
-			if (child1.getStart() <= start && end <= child1.getEnd()) {
-				return UserCodeError.getDescendentAtLocation(child1, start, end);
-			}
-		}
-		return node;
+	// Where the user code was when it was stopped is not known, so the error is reported at the start of the entry file
+	public get location(): UserCodeLocation {
+		return { fileName: this.entryFileName, line: 1, column: 1 };
 	}
 
 	public toJSON(): {
 		message: string;
 		stack: string;
-		location: { line: number; column: number };
+		location: UserCodeLocation;
+		phase: UserCodeCancellationPhase;
 	} {
-		return {
-			message: this.message,
-			stack: this.stack,
-			location: this.location,
-		};
+		return { ...super.toJSON(), phase: this.phase };
 	}
 
-	public toString(): string {
-		return `${this.message}\n${this.stack}`;
+	public static new(
+		phase: UserCodeCancellationPhase,
+		entryFileName: string = USER_CODE_FILENAME,
+	): UserCodeCancelledError {
+		return new UserCodeCancelledError(phase, entryFileName);
 	}
 }
 
-// Pretty print type errors with indicators under the offending code
-export class UserCodeTypeError extends UserCodeError {
-	protected constructor(
-		protected diagnostic: ts.Diagnostic,
-		protected sources: Map<string, ts.SourceFile>,
-		protected typeChecker: ts.TypeChecker,
-		protected mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
-	) {
+// User code that needed more memory than the resource limits of the execution allow, the worker it ran in was stopped
+export class UserCodeResourceLimitError extends UserCodeError {
+	protected constructor(protected resourceLimits: UserCodeResourceLimits, protected entryFileName: string) {
 		super();
 	}
 
+	public get limits(): UserCodeResourceLimits {
+		return this.resourceLimits;
+	}
+
 	public get message(): string {
-		return `TypeError: TS${this.diagnostic.code} ${this.mapDiagnosticMessage(this.diagnostic).join('\n')}`;
+		const limits = Object.entries(this.resourceLimits).map(([name, limit]) => `${name}: ${limit}`);
+		return `ResourceLimitError: Execution ran out of memory${limits.length > 0 ? ` (${limits.join(', ')})` : ''}.`;
 	}
 
 	public get stack(): string {
-		const userFile = this.sources.get(USER_CODE_FILENAME)!;
-		const diagnosticNode = UserCodeError.getDescendentAtLocation(
-			userFile,
-			this.diagnostic.start!,
-			this.diagnostic.start! + this.diagnostic.length!,
-		);
-		if (diagnosticNode === null) {
-			throw new Error(`Could not find node for diagnostic ${this.diagnostic.messageText}`);
-		}
-		const functionDeclaration = ts.findAncestor(diagnosticNode, ts.isFunctionLike) as
-			| ts.FunctionDeclaration
-			| undefined;
+		return `at (${formatLocation(this.location)})`;
+	}
 
-		return `at ${functionDeclaration?.name?.getText() ?? ''}(${this.location.line}:${this.location.column})`;
+	// The allocations that exhaust memory are not known, so the error is reported at the start of the entry file
+	public get location(): UserCodeLocation {
+		return { fileName: this.entryFileName, line: 1, column: 1 };
 	}
 
-	public get location(): { line: number; column: number } {
-		if (this.diagnostic.start === undefined) {
-			throw new Error('Could not find start position');
-		}
-		const location = this.sources.get(USER_CODE_FILENAME)!.getLineAndCharacterOfPosition(this.diagnostic.start);
-		return {
-			line: location.line + 1,
-			column: location.character + 1,
-		};
+	public toJSON(): {
+		message: string;
+		stack: string;
+		location: UserCodeLocation;
+		limits: UserCodeResourceLimits;
+	} {
+		return { ...super.toJSON(), limits: this.limits };
 	}
 
 	public static new(
-		diagnostic: ts.Diagnostic,
-		sources: Map<string, ts.SourceFile>,
-		typeChecker: ts.TypeChecker,
-		mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
-	): UserCodeError {
-		if (removeExt(diagnostic.file?.fileName ?? '') === EXECUTION_HARNESS_FILENAME) {
-			return new ExecutionHarnessTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage);
-		}
-		return new UserCodeTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+		resourceLimits: UserCodeResourceLimits,
+		entryFileName: string = USER_CODE_FILENAME,
+	): UserCodeResourceLimitError {
+		return new UserCodeResourceLimitError(resourceLimits, entryFileName);
 	}
 }
 
 // Pretty print runtime errors with lines numbers
 export class UserCodeRuntimeError extends UserCodeError {
 	private readonly error: Error;
-	private readonly sourceMap: SourceMapConsumer;
+	private readonly sourceMaps: Map<string, SourceMapConsumer>;
 	private readonly stackFrames: StackFrame[];
+	private readonly userCodeFrame: StackFrame | undefined;
 
-	protected constructor(error: Error, sourceMap: SourceMapConsumer) {
+	protected constructor(error: Error, sourceMaps: Map<string, SourceMapConsumer>) {
 		super();
 		this.error = error;
-		this.sourceMap = sourceMap;
+		this.sourceMaps = sourceMaps;
 		this.stackFrames = parse(this.error);
-		const userCodeFrame = this.stackFrames.find(frame => frame.getFileName() === USER_CODE_FILENAME);
-		if (userCodeFrame === undefined) {
-			this.error.message =
-				'Error: Runtime error detected outside of user code execution path. This is most likely a bug in the additional library source.\nInherited from:\n' +
-				this.error.message;
-			throw this.error;
-		}
+		this.userCodeFrame = this.stackFrames.find(frame => this.sourceMaps.has(frame.getFileName()));
 	}
 
 	public get message(): string {
+		if (this.userCodeFrame === undefined) {
+			return (
+				'Error: Runtime error detected outside of user code execution path. This is most likely a bug in the additional library source.\nInherited from:\n' +
+				this.error.message
+			);
+		}
 		return 'Error: ' + this.error.message;
 	}
 
 	public get stack(): string {
+		// Without frames of the user code, the whole stack is the only hint at what went wrong
+		if (this.userCodeFrame === undefined) {
+			return this.error.stack ?? '';
+		}
 		const stackWithoutHarness = this.stackFrames
-			.filter(callSite => callSite.getFileName()?.endsWith(USER_CODE_FILENAME))
-			.filter(callSite => {
-				if (callSite.getFileName() === undefined) {
-					return false;
-				}
-				const mappedLocation = this.sourceMap.originalPositionFor({
-					line: callSite.getLineNumber()!,
-					column: callSite.getColumnNumber()!,
-				});
-				return mappedLocation.line !== null;
-			});
+			.filter(callSite => this.sourceMaps.has(callSite.getFileName()))
+			.filter(callSite => this.originalLocationFor(callSite) !== undefined);
 		return stackWithoutHarness
 			.map(callSite => {
-				const mappedLocation = this.sourceMap.originalPositionFor({
-					line: callSite.getLineNumber()!,
-					column: callSite.getColumnNumber()!,
-				});
 				const functionName = callSite.getFunctionName();
-				const lineNumber = mappedLocation.line;
-				const columnNumber = mappedLocation.column;
-				return 'at ' + functionName + '(' + lineNumber + ':' + columnNumber + ')';
+				return 'at ' + functionName + '(' + formatLocation(this.originalLocationFor(callSite)!) + ')';
 			})
 			.join('\n');
 	}
 
-	public get location(): { line: number; column: number } {
-		const stack = parse(this.error);
-		const userFileStackFrame = stack.find(callSite => callSite.getFileName() === USER_CODE_FILENAME)!;
-		const originalPosition = this.sourceMap.originalPositionFor({
+	public get location(): UserCodeLocation {
+		const userFileStackFrame = this.userCodeFrame;
+		if (userFileStackFrame === undefined) {
+			return { fileName: USER_CODE_FILENAME, line: 1, column: 1 };
+		}
+		const originalPosition = this.sourceMaps.get(userFileStackFrame.getFileName())!.originalPositionFor({
 			line: userFileStackFrame.getLineNumber()!,
 			column: userFileStackFrame.getColumnNumber()!,
 		});
 		return {
+			fileName: originalPosition.source ?? userFileStackFrame.getFileName(),
 			line: originalPosition.line!,
 			column: originalPosition.column!,
 		};
 	}
 
-	public static new(error: Error, sourceMap: SourceMapConsumer): UserCodeRuntimeError {
-		return new UserCodeRuntimeError(error, sourceMap);
+	private originalLocationFor(callSite: StackFrame): UserCodeLocation | undefined {
+		const mappedLocation = this.sourceMaps.get(callSite.getFileName())!.originalPositionFor({
+			line: callSite.getLineNumber()!,
+			column: callSite.getColumnNumber()!,
+		});
+		if (mappedLocation.line === null) {
+			return undefined;
+		}
+		return {
+			fileName: mappedLocation.source ?? callSite.getFileName(),
+			line: mappedLocation.line,
+			column: mappedLocation.column!,
+		};
+	}
+
+	// Accepts the source map of single file user code, or the source maps of every user file by module identifier
+	public static new(error: Error, sourceMap: SourceMapConsumer | Map<string, SourceMapConsumer>): UserCodeRuntimeError {
+		return new UserCodeRuntimeError(
+			error,
+			sourceMap instanceof Map ? sourceMap : new Map([[USER_CODE_FILENAME, sourceMap]]),
+		);
 	}
 }
 
 // Redirect the execution harness errors to the user code type signature
 export class ExecutionHarnessTypeError extends UserCodeTypeError {
+	protected readonly executionHarness: ts.SourceFile;
+
 	constructor(
 		protected diagnostic: ts.Diagnostic,
 		protected sources: Map<string, ts.SourceFile>,
@@ -435,9 +1730,11 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 		protected mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
 	) {
 		super(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+		// Remember the harness before the diagnostic is redirected to the user code
+		this.executionHarness = diagnostic.file!;
 
 		const diagnosticNode = UserCodeError.getDescendentAtLocation(
-			sources.get(EXECUTION_HARNESS_FILENAME)!,
+			this.executionHarness,
 			this.diagnostic.start!,
 			this.diagnostic.start! + this.diagnostic.length!,
 		);
@@ -446,14 +1743,24 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 			throw new Error('Unable to locate diagnostic node: ' + this.diagnostic.messageText);
 		}
 
+		// The declared signature itself does not type check, e.g. it names a type that does not exist
+		if (this.isInExecutionHarnessSignature(this.diagnostic.start!, this.diagnostic.start! + this.diagnostic.length!)) {
+			throw new InvalidSignatureError([
+				`Export '${this.exportName}': ${ts.flattenDiagnosticMessageText(this.diagnostic.messageText, '\n')}`,
+			]);
+		}
+
 		const defaultExportSymbol = this.defaultExportSymbol;
 		const defaultExportNode = this.defaultExportNode;
 		// No default export
 		if (defaultExportSymbol == undefined || defaultExportNode === undefined) {
-			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
+			this.diagnostic.file = this.userFile;
 			this.diagnostic.start = this.diagnostic.file.getStart();
 			this.diagnostic.length = this.diagnostic.file.getEnd() - this.diagnostic.start;
-			this.diagnostic.messageText = `No default export. Expected a default export function with the signature: "(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}".`;
+			this.diagnostic.messageText =
+				this.exportName === 'default'
+					? `No default export. ${this.expectedExportMessage}`
+					: `No export named '${this.exportName}'. ${this.expectedExportMessage}`;
 			return;
 		}
 
@@ -461,10 +1768,13 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 
 		// Default export is not a function
 		if (callSignature === undefined) {
-			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
+			this.diagnostic.file = defaultExportNode.getSourceFile();
 			this.diagnostic.start = defaultExportNode.getStart();
 			this.diagnostic.length = defaultExportNode.getEnd()! - defaultExportNode.getStart()!;
-			this.diagnostic.messageText = `Default export is not a valid function. Expected a default export function with the signature: "(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}".`;
+			this.diagnostic.messageText =
+				this.exportName === 'default'
+					? `Default export is not a valid function. ${this.expectedExportMessage}`
+					: `Export '${this.exportName}' is not a valid function. ${this.expectedExportMessage}`;
 			return;
 		}
 		// Errors in the return type of the user code default export
@@ -473,17 +1783,18 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 			const defaultExportedFunctionNodeReturnTypeNode = this.defaultExportedFunctionReturnNode;
 			// Function declares return type
 			if (defaultExportedFunctionNodeReturnTypeNode !== undefined) {
+				this.diagnostic.file = defaultExportedFunctionNodeReturnTypeNode.getSourceFile();
 				this.diagnostic.start = defaultExportedFunctionNodeReturnTypeNode.getStart();
 				this.diagnostic.length =
 					defaultExportedFunctionNodeReturnTypeNode.getEnd() - defaultExportedFunctionNodeReturnTypeNode.getStart();
 			}
 			// Function does not declare a return type, just return the whole signature
 			else {
+				this.diagnostic.file = defaultExportNode.getSourceFile();
 				this.diagnostic.start = defaultExportNode.getStart();
 				this.diagnostic.length = defaultExportNode.getEnd() - this.diagnostic.start;
 			}
 
-			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
 			this.diagnostic.messageText = `Incorrect return type. Expected: '${this.outputTypeNode.getText()}', Actual: '${this.typeChecker.typeToString(
 				returnType,
 			)}'.`;
@@ -500,7 +1811,7 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 
 			// No parameters on default exported function, just return the whole signature
 			if (parameters.length === 0) {
-				this.diagnostic.file = this.sources.get(USER_CODE_FILENAME);
+				this.diagnostic.file = defaultExportNode.getSourceFile();
 				this.diagnostic.start = defaultExportNode.getStart();
 				this.diagnostic.length = defaultExportNode.getEnd() - this.diagnostic.start;
 				this.diagnostic.messageText = `Incorrect argument type. Expected: '${this.argumentTypeNode.getText()}', Actual: '[${parameters
@@ -509,7 +1820,7 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 				return;
 			}
 
-			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME);
+			this.diagnostic.file = parameters[0].valueDeclaration!.getSourceFile();
 			this.diagnostic.start = Math.min(...parameters.map(p => p.valueDeclaration!.getStart()));
 			this.diagnostic.length = Math.max(...parameters.map(p => p.valueDeclaration!.getEnd())) - this.diagnostic.start;
 			this.diagnostic.messageText = `Incorrect argument type. Expected: '${this.argumentTypeNode.getText()}', Actual: '[${parameters
@@ -523,38 +1834,75 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 
 	public get stack(): string {
 		return (
-			'at ' +
-			(this.defaultExportedFunctionNode?.name?.getText() ?? '') +
-			'(' +
-			this.location.line +
-			':' +
-			this.location.column +
-			')'
+			'at ' + (this.defaultExportedFunctionNode?.name?.getText() ?? '') + '(' + formatLocation(this.location) + ')'
 		);
 	}
 
-	public get location(): { line: number; column: number } {
-		const userFile = this.sources.get(USER_CODE_FILENAME)!;
+	public get location(): UserCodeLocation {
+		const userFile = this.diagnostic.file ?? this.userFile;
 		if (this.diagnostic.start === undefined) {
 			return {
+				fileName: userFile.fileName,
 				line: 1,
 				column: 1,
 			};
 		}
 		const location = userFile.getLineAndCharacterOfPosition(this.diagnostic.start);
 		return {
+			fileName: userFile.fileName,
 			line: location.line + 1,
 			column: location.character + 1,
 		};
 	}
 
+	// The user file imported by the execution harness for the export it calls
+	protected get userFile(): ts.SourceFile {
+		const importDeclaration = this.executionHarnessEntrypointImportNode;
+		return this.sources.get(getModuleKey((importDeclaration.moduleSpecifier as ts.StringLiteral).text))!;
+	}
+
+	// Name of the export the execution harness calls, 'default' unless a named export was requested
+	protected get exportName(): string {
+		const importClause = this.executionHarnessEntrypointImportNode.importClause!;
+		if (importClause.name !== undefined) {
+			return 'default';
+		}
+		const importSpecifier = (importClause.namedBindings as ts.NamedImports).elements[0];
+		return (importSpecifier.propertyName ?? importSpecifier.name).text;
+	}
+
+	protected get expectedExportMessage(): string {
+		const signature = `(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}`;
+		return this.exportName === 'default'
+			? `Expected a default export function with the signature: "${signature}".`
+			: `Expected an exported function named '${this.exportName}' with the signature: "${signature}".`;
+	}
+
+	protected get executionHarnessEntrypointImportNode(): ts.ImportDeclaration {
+		const executionHarness = this.executionHarness;
+		return executionHarness.statements
+			.filter(ts.isImportDeclaration)
+			.find(statement => statement.importClause !== undefined && !statement.importClause.isTypeOnly)!;
+	}
+
+	protected isInExecutionHarnessSignature(start: number, end: number): boolean {
+		const signatureNodes = [
+			this.argumentTypeNode,
+			this.outputTypeNode,
+			...this.executionHarness.statements.filter(
+				statement => ts.isImportDeclaration(statement) && statement.importClause?.isTypeOnly,
+			),
+		];
+		return signatureNodes.some(node => node.getStart() <= start && end <= node.getEnd());
+	}
+
 	protected get defaultExportSymbol(): ts.Symbol | undefined {
-		const userFile = this.sources.get(USER_CODE_FILENAME)!;
+		const userFile = this.userFile;
 
 		const userFileSymbol = this.typeChecker.getSymbolAtLocation(userFile);
 		if (userFileSymbol === undefined) return undefined;
 		const userFileExports = this.typeChecker.getExportsOfModule(userFileSymbol);
-		return userFileExports.find(symbol => symbol.escapedName === 'default');
+		return userFileExports.find(symbol => symbol.escapedName === this.exportName);
 	}
 
 	protected get defaultExportNode(): ts.Node | undefined {
@@ -594,7 +1942,8 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 	protected get defaultExportedFunctionReturnNode(): ts.TypeNode | undefined {
 		const defaultExportedFunctionNode = this.defaultExportedFunctionNode;
 		if (defaultExportedFunctionNode === undefined) return undefined;
-		return defaultExportedFunctionNode.type;
+		// JavaScript user code declares its return type in a JSDoc @returns tag
+		return defaultExportedFunctionNode.type ?? ts.getJSDocReturnType(defaultExportedFunctionNode);
 	}
 
 	protected get executionHarnessResultNode(): ts.Identifier {
@@ -613,13 +1962,13 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 	}
 
 	protected get executionHarnessExpressionStatementNode() {
-		const executionHarness = this.sources.get(EXECUTION_HARNESS_FILENAME)!;
+		const executionHarness = this.executionHarness;
 		const expressionStatement = executionHarness.statements.find(ts.isExpressionStatement)!;
 		return expressionStatement.expression as ts.BinaryExpression;
 	}
 
 	protected get executionHarnessAsyncExpressionStatementNode() {
-		const executionHarness = this.sources.get(EXECUTION_HARNESS_FILENAME)!;
+		const executionHarness = this.executionHarness;
 		const ifStatement = executionHarness.statements.find(ts.isIfStatement)!;
 
 		const thenStatement = ifStatement.thenStatement as ts.Block;
@@ -639,28 +1988,18 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 		return callExpression.expression as ts.Identifier;
 	}
 
-	protected get globalModuleDeclarationBlock(): ts.ModuleBlock {
-		const executionHarness = this.sources.get(EXECUTION_HARNESS_FILENAME)!;
-		const moduleDeclaration = executionHarness.statements.find(ts.isModuleDeclaration)!;
-		return moduleDeclaration.body! as ts.ModuleBlock;
+	protected get executionHarnessDeclarationStatements(): ts.VariableStatement[] {
+		return this.executionHarness.statements.filter(ts.isVariableStatement);
 	}
 
 	protected get argumentTypeNode(): ts.TypeNode {
-		const moduleBlock = this.globalModuleDeclarationBlock;
-		const variableDeclaration = UserCodeError.getDescendentNodes(
-			moduleBlock.statements[0],
-			ts.isVariableDeclarationList,
-		)[0] as ts.VariableDeclarationList;
-		return variableDeclaration.declarations[0].type!;
+		const variableStatement = this.executionHarnessDeclarationStatements[0];
+		return variableStatement.declarationList.declarations[0].type!;
 	}
 
 	protected get outputTypeNode(): ts.TypeNode {
-		const moduleBlock = this.globalModuleDeclarationBlock;
-		const variableDeclaration = UserCodeError.getDescendentNodes(
-			moduleBlock.statements[1],
-			ts.isVariableDeclarationList,
-		)[0] as ts.VariableDeclarationList;
-		return variableDeclaration.declarations[0].type!;
+		const variableStatement = this.executionHarnessDeclarationStatements[1];
+		return variableStatement.declarationList.declarations[0].type!;
 	}
 }
 
@@ -680,6 +2019,90 @@ function printTree(node: ts.Node | ts.Node[], level = 0): string {
 	return returnString;
 }
 
+// A type guard that rejects a value does not tell where it differs, so there is no mismatch to report
+function validateOutput(
+	value: unknown,
+	outputValidator: UserCodeOutputValidator,
+): { valid: true } | { valid: false; mismatch?: TypeSchemaMismatch } {
+	if (typeof outputValidator === 'function') {
+		return outputValidator(value) ? { valid: true } : { valid: false };
+	}
+	const mismatch = validateTypeSchema(value, outputValidator.type);
+	return mismatch === undefined ? { valid: true } : { valid: false, mismatch };
+}
+
+// The output type as written in the harness, `declare let __result: ${outputType} | Promise<${outputType}>;`
+function getDeclaredOutputType(executionHarness: ts.SourceFile, typeChecker: ts.TypeChecker): ts.Type {
+	const resultDeclaration = executionHarness.statements.filter(ts.isVariableStatement)[1].declarationList
+		.declarations[0];
+	const resultTypeNode = resultDeclaration.type as ts.UnionTypeNode;
+	const promiseTypeNode = resultTypeNode.types[resultTypeNode.types.length - 1] as ts.TypeReferenceNode;
+	return typeChecker.getTypeFromTypeNode(promiseTypeNode.typeArguments![0]);
+}
+
+// The argument types as written in the harness, `declare const __args: [${argsTypes.join(', ')}];`
+function getDeclaredArgsType(executionHarness: ts.SourceFile, typeChecker: ts.TypeChecker): ts.Type {
+	const argsDeclaration = executionHarness.statements.filter(ts.isVariableStatement)[0].declarationList.declarations[0];
+	return typeChecker.getTypeFromTypeNode(argsDeclaration.type!);
+}
+
+// The returned expression if the export has a single return statement, otherwise the export itself
+function getReturnLocation(
+	entryFile: ts.SourceFile,
+	exportName: string,
+	typeChecker: ts.TypeChecker,
+): UserCodeLocation | undefined {
+	const moduleSymbol = typeChecker.getSymbolAtLocation(entryFile);
+	let exportSymbol = moduleSymbol && typeChecker.getExportsOfModule(moduleSymbol).find(s => s.name === exportName);
+	if (exportSymbol === undefined) {
+		return undefined;
+	}
+	if (exportSymbol.flags & ts.SymbolFlags.Alias) {
+		exportSymbol = typeChecker.getAliasedSymbol(exportSymbol);
+	}
+	const declaration = exportSymbol.valueDeclaration;
+	if (declaration === undefined) {
+		return undefined;
+	}
+	let node: ts.Node = declaration;
+	const functionNode = ts.isVariableDeclaration(declaration) ? declaration.initializer : declaration;
+	if (functionNode !== undefined && ts.isFunctionLike(functionNode) && 'body' in functionNode && functionNode.body) {
+		const returnedExpressions = ts.isBlock(functionNode.body)
+			? getReturnStatements(functionNode.body).map(statement => statement.expression)
+			: [functionNode.body as ts.Expression];
+		if (returnedExpressions.length === 1 && returnedExpressions[0] !== undefined) {
+			node = returnedExpressions[0];
+		}
+	}
+	const sourceFile = node.getSourceFile();
+	const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+	return { fileName: sourceFile.fileName, line: line + 1, column: character + 1 };
+}
+
+function getReturnStatements(body: ts.Block): ts.ReturnStatement[] {
+	const returnStatements: ts.ReturnStatement[] = [];
+	const visit = (node: ts.Node): void => {
+		if (ts.isFunctionLike(node) || ts.isClassLike(node)) return;
+		if (ts.isReturnStatement(node)) returnStatements.push(node);
+		ts.forEachChild(node, visit);
+	};
+	ts.forEachChild(body, visit);
+	return returnStatements;
+}
+
+function getWarningSeverity(diagnostic: ts.Diagnostic): UserCodeWarningSeverity | undefined {
+	switch (diagnostic.category) {
+		case ts.DiagnosticCategory.Warning:
+			return 'warning';
+		case ts.DiagnosticCategory.Suggestion:
+			return 'suggestion';
+		case ts.DiagnosticCategory.Message:
+			return 'message';
+		default:
+			return WARNING_DIAGNOSTIC_SEVERITIES[diagnostic.code];
+	}
+}
+
 function getDiagnosticCodes(diagnostic: ts.Diagnostic): integer[] {
 	const codes: integer[] = [];
 	codes.push(diagnostic.code);
@@ -700,6 +2123,211 @@ function getDiagnosticMessageChainCodes(diagnosticMessageChain: ts.DiagnosticMes
 	return codes;
 }
 
+function toExportSignature(signature: ExportSignature | SignatureDescriptor): ExportSignature & {
+	typeImports?: SignatureTypeImport[];
+} {
+	if (!('parameters' in signature)) {
+		return signature;
+	}
+	validateSignature(signature);
+	return {
+		outputType: signature.returnType,
+		argsTypes: getSignatureArgsTypes(signature),
+		typeImports: signature.typeImports,
+	};
+}
+
+// Restrict the transformers to the source files they should apply to, leaving the others as they are, and add the
+// deadline checks to the user code, after the transformers so that code they add is checked too
+function createCustomTransformers(
+	transformers: UserCodeTransformers,
+	shouldTransform: (sourceFile: ts.SourceFile) => boolean,
+	shouldCheckDeadlines: (sourceFile: ts.SourceFile) => boolean,
+): ts.CustomTransformers {
+	const restrict =
+		(transformerFactory: ts.TransformerFactory<ts.SourceFile>, predicate = shouldTransform) =>
+		(context: ts.TransformationContext) => {
+			const transformer = transformerFactory(context);
+			return (sourceFile: ts.SourceFile) => (predicate(sourceFile) ? transformer(sourceFile) : sourceFile);
+		};
+	return {
+		before: [
+			...(transformers.before ?? []).map(transformerFactory => restrict(transformerFactory)),
+			restrict(createDeadlineCheckTransformer(), shouldCheckDeadlines),
+		],
+		after: transformers.after?.map(transformerFactory => restrict(transformerFactory)),
+	};
+}
+
+function formatLocation(location: UserCodeLocation): string {
+	const lineAndColumn = `${location.line}:${location.column}`;
+	return location.fileName === USER_CODE_FILENAME ? lineAndColumn : `${location.fileName}:${lineAndColumn}`;
+}
+
+// Thrown by executeInWorker when the value returned by user code cannot be structured cloned
+class UncloneableResultError extends Error {}
+
+async function getOriginalLocation(
+	frame: UserCodeFrame,
+	sourceMaps: { [moduleKey: string]: string },
+): Promise<UserCodeLocation | undefined> {
+	const sourceMapConsumer = await new SourceMapConsumer(sourceMaps[frame.moduleKey]);
+	// Frames may point at the start of a line, so take the first mapping from there on
+	const originalPosition = sourceMapConsumer.originalPositionFor({
+		line: frame.line,
+		column: frame.column,
+		bias: SourceMapConsumer.LEAST_UPPER_BOUND,
+	});
+	if (originalPosition.line === null) {
+		return undefined;
+	}
+	return {
+		fileName: originalPosition.source ?? frame.moduleKey,
+		line: originalPosition.line,
+		column: originalPosition.column! + 1,
+	};
+}
+
+// Compilation is synchronous, so yield to let an abort in the meantime take effect before checking the signal
+async function isAborted(signal: AbortSignal | undefined): Promise<boolean> {
+	if (signal === undefined) {
+		return false;
+	}
+	await new Promise(resolve => setImmediate(resolve));
+	return signal.aborted;
+}
+
+/**
+ * Run the execution harness in a context of the host process, within a deadline that also covers awaiting the result.
+ * User code that is still running at the deadline or when the signal aborts is stopped at its next deadline check.
+ */
+async function executeInContext(
+	jsFileMap: { [key: string]: string },
+	harnessModuleKey: string,
+	args: unknown[],
+	context: vm.Context,
+	timeout: number,
+	moduleMap: ModuleMap,
+	signal: AbortSignal | undefined,
+	userModuleKeys: string[] | undefined, // The modules to look for in the sampled stack, if timeouts are located
+): Promise<unknown> {
+	let stopSampling = userModuleKeys === undefined ? undefined : await startUserCodeSampler(userModuleKeys);
+	try {
+		return await evaluateExecutionHarness(jsFileMap, harnessModuleKey, args, context, timeout, moduleMap, signal);
+	} catch (error) {
+		if (error instanceof ExecutionTimeoutError) {
+			error.lastUserCodeFrame = await stopSampling?.();
+			stopSampling = undefined;
+		}
+		throw error;
+	} finally {
+		await stopSampling?.();
+	}
+}
+
+// Milliseconds past the timeout a worker gets to stop the user code and report on its own before it is terminated
+const WORKER_TIMEOUT_GRACE_PERIOD = 100;
+
+// Thrown by executeInWorker when the worker ran out of memory
+class ResourceLimitExceededError extends Error {}
+
+// Thrown by executeInWorker when the arguments or the context globals cannot be structured cloned into the worker
+class UncloneableInputError extends Error {
+	constructor(public readonly input: string, message: string) {
+		super(message);
+	}
+}
+
+// The first input of a worker that cannot be cloned, the error of cloning all of them does not tell which it is
+function findUncloneableInput({ args, contextGlobals }: ExecutionWorkerData): string | undefined {
+	const inputs = [
+		...args.map((arg, index) => [`argument ${index}`, arg] as const),
+		...Object.entries(contextGlobals).map(([name, value]) => [`context global '${name}'`, value] as const),
+	];
+	return inputs.find(([, value]) => {
+		try {
+			structuredClone(value);
+			return false;
+		} catch {
+			return true;
+		}
+	})?.[0];
+}
+
+// Run the execution harness in a worker, which is terminated if it has not reported shortly after the timeout passes
+function executeInWorker(
+	workerData: ExecutionWorkerData,
+	resourceLimits: UserCodeResourceLimits | undefined,
+	signal: AbortSignal | undefined,
+): Promise<unknown> {
+	return new Promise((resolve, reject) => {
+		let worker: Worker;
+		try {
+			worker = new Worker(EXECUTION_WORKER_URL, { workerData, resourceLimits });
+		} catch (error) {
+			// A DOMException, which has no type without the DOM library
+			if ((error as Error).name === 'DataCloneError') {
+				reject(new UncloneableInputError(findUncloneableInput(workerData) ?? 'input', (error as Error).message));
+				return;
+			}
+			throw error;
+		}
+		let phase: UserCodeExecutionPhase = 'evaluation';
+		let deadline: NodeJS.Timeout | undefined;
+		const onAbort = () => settle(() => reject(new ExecutionCancelledError()));
+		const settle = (settlePromise: () => void) => {
+			clearTimeout(deadline);
+			signal?.removeEventListener('abort', onAbort);
+			void worker.terminate();
+			settlePromise();
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+		worker.on('message', (message: ExecutionWorkerMessage) => {
+			switch (message.type) {
+				case 'started':
+					deadline = setTimeout(
+						() => settle(() => reject(new ExecutionTimeoutError(phase))),
+						workerData.timeout + WORKER_TIMEOUT_GRACE_PERIOD,
+					);
+					break;
+				case 'awaitingResult':
+					phase = 'awaiting-result';
+					break;
+				case 'result':
+					settle(() => resolve(message.value));
+					break;
+				case 'error':
+					settle(() => reject(deserializeError(message.error)));
+					break;
+				case 'timeout':
+					settle(() => reject(new ExecutionTimeoutError(message.phase, message.lastUserCodeFrame)));
+					break;
+				case 'uncloneableResult':
+					settle(() => reject(new UncloneableResultError(message.message)));
+					break;
+			}
+		});
+		worker.on('error', error =>
+			settle(() =>
+				reject(
+					(error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY'
+						? new ResourceLimitExceededError(error.message)
+						: error,
+				),
+			),
+		);
+		worker.on('exit', exitCode => settle(() => reject(new Error(`Execution worker exited with code ${exitCode}`))));
+	});
+}
+
+// Stack frames keep naming the modules of the user code, so that the error can be source mapped as if thrown in the host
+function deserializeError({ name, message, stack }: SerializedError): Error {
+	const error = new Error(message);
+	error.name = name;
+	error.stack = stack;
+	return error;
+}
+
 function removeExt(pathname: string): string {
 	return path.basename(pathname).replace(path.extname(pathname), '');
 }
@@ -1,5 +1,5 @@
 // See error code index here https://github.com/Microsoft/TypeScript/blob/main/src/compiler/diagnosticMessages.json
-const REGEX_2792 = /([^\n]+) Did you mean to set the 'moduleResolution' option to 'node', or to add aliases to the 'paths' option\?/;
+const REGEX_2792 = /([^\n]+) Did you mean to set the 'moduleResolution' option to 'node(?:next)?', or to add aliases to the 'paths' option\?/;
 
 export const defaultErrorCodeMessageMappers: {
   [key: number]: (msg: string) => string | undefined;
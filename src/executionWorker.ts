@@ -0,0 +1,75 @@
+import vm from 'vm';
+import { parentPort, workerData } from 'worker_threads';
+import { evaluateExecutionHarness, ExecutionTimeoutError } from './utils/harnessEvaluation.js';
+import type { ModuleMap } from './utils/moduleResolution.js';
+import { startUserCodeSampler, UserCodeFrame } from './utils/userCodeSampler.js';
+import type { UserCodeExecutionPhase } from './UserCodeRunner.js';
+
+// Entry point of the workers of the 'worker' executor, each runs the execution harness once and reports back
+
+export interface ExecutionWorkerData {
+	jsFileMap: { [key: string]: string };
+	harnessModuleKey: string;
+	args: unknown[];
+	contextGlobals: { [name: string]: unknown }; // Copied from the context given to the executor
+	timeout: number;
+	moduleMap: ModuleMap;
+	userModuleKeys: string[] | undefined; // The modules to look for in the sampled stack, if timeouts are located
+}
+
+export type ExecutionWorkerMessage =
+	| { type: 'started' } // Sent before the user code runs, so that the deadline does not count the worker start up
+	| { type: 'awaitingResult' } // Sent once the synchronous part of the evaluation has finished
+	| { type: 'result'; value: unknown }
+	| { type: 'error'; error: SerializedError }
+	| { type: 'timeout'; phase: UserCodeExecutionPhase; lastUserCodeFrame: UserCodeFrame | undefined }
+	| { type: 'uncloneableResult'; message: string }; // The result cannot be copied out of the worker
+
+export interface SerializedError {
+	name: string;
+	message: string;
+	stack: string | undefined;
+}
+
+const { jsFileMap, harnessModuleKey, args, contextGlobals, timeout, moduleMap, userModuleKeys } =
+	workerData as ExecutionWorkerData;
+
+const postMessage = (message: ExecutionWorkerMessage) => parentPort!.postMessage(message);
+
+async function execute(): Promise<void> {
+	const stopSampling = userModuleKeys === undefined ? undefined : await startUserCodeSampler(userModuleKeys);
+	postMessage({ type: 'started' });
+	let value: unknown;
+	try {
+		value = await evaluateExecutionHarness(
+			jsFileMap,
+			harnessModuleKey,
+			args,
+			vm.createContext({ ...contextGlobals }),
+			timeout,
+			moduleMap,
+			undefined, // Cancelled executions are terminated by the host
+			() => postMessage({ type: 'awaitingResult' }),
+		);
+	} catch (error: any) {
+		const lastUserCodeFrame = await stopSampling?.();
+		if (error instanceof ExecutionTimeoutError) {
+			postMessage({ type: 'timeout', phase: error.phase, lastUserCodeFrame });
+			return;
+		}
+		// Errors of user code come from another realm, so they are recognized by their shape rather than with instanceof
+		postMessage({
+			type: 'error',
+			error: { name: error?.name ?? 'Error', message: error?.message ?? String(error), stack: error?.stack },
+		});
+		return;
+	}
+	await stopSampling?.();
+	try {
+		postMessage({ type: 'result', value });
+	} catch (error: any) {
+		postMessage({ type: 'uncloneableResult', message: error.message });
+	}
+}
+
+void execute();
@@ -0,0 +1,111 @@
+import ts from 'typescript';
+import type { ModuleMap } from './moduleResolution.js';
+import {
+	createFileVersion,
+	createVirtualFileLookup,
+	createVirtualLanguageService,
+	VirtualFile,
+} from './userCodeEnvironment.js';
+
+// A replacement of the text of a user file, offsets are into the text the diagnostic was reported for
+export interface UserCodeTextEdit {
+	fileName: string;
+	start: number;
+	length: number;
+	newText: string;
+}
+
+// A remedy TypeScript offers for a type error, e.g. adding a missing import or correcting a misspelled name
+export interface UserCodeFix {
+	fixName: string; // Identifies the kind of fix, e.g. 'import' or 'spelling'
+	description: string; // E.g. "Change spelling to 'floor'"
+	edits: UserCodeTextEdit[];
+}
+
+// Fixes that silence the error rather than remedy it
+const EXCLUDED_FIX_NAMES = ['disableJsDiagnostics'];
+
+// Finds the code fixes TypeScript offers for the diagnostics of a program
+export interface CodeFixProvider {
+	getCodeFixes(diagnostic: ts.Diagnostic): UserCodeFix[];
+	dispose(): void; // Releases the language service that computed the fixes
+}
+
+/**
+ * Create a provider of the code fixes for the diagnostics of a program of the given files. The language service that
+ * computes them is created on the first request. Fixes that would edit anything but user files are left out.
+ */
+export function createCodeFixProvider(
+	program: ts.Program,
+	files: ReadonlyMap<string, ts.SourceFile>,
+	moduleMap: ModuleMap,
+	isUserFile: (fileName: string) => boolean,
+	formatSettings: ts.FormatCodeSettings,
+): CodeFixProvider {
+	let languageService: ts.LanguageService | undefined;
+
+	const createLanguageService = () => {
+		const version = createFileVersion();
+		const virtualFiles = new Map<string, VirtualFile>(
+			[...files].map(([moduleKey, sourceFile]) => [
+				moduleKey,
+				{
+					fileName: sourceFile.fileName,
+					text: sourceFile.text,
+					version,
+					scriptKind: sourceFile.flags & ts.NodeFlags.JavaScriptFile ? ts.ScriptKind.JS : ts.ScriptKind.TS,
+				},
+			]),
+		);
+		const fileLookup = createVirtualFileLookup(virtualFiles, moduleMap);
+		return createVirtualLanguageService(
+			program.getCompilerOptions(),
+			() => [...program.getRootFileNames()],
+			() => fileLookup,
+		);
+	};
+
+	return {
+		getCodeFixes: diagnostic => {
+			if (diagnostic.file === undefined || diagnostic.start === undefined || !isUserFile(diagnostic.file.fileName)) {
+				return [];
+			}
+			languageService ??= createLanguageService();
+			const codeFixActions = languageService.getCodeFixesAtPosition(
+				diagnostic.file.fileName,
+				diagnostic.start,
+				diagnostic.start + (diagnostic.length ?? 0),
+				[diagnostic.code],
+				formatSettings,
+				{},
+			);
+			return codeFixActions
+				.filter(
+					action =>
+						!EXCLUDED_FIX_NAMES.includes(action.fixName) &&
+						action.changes.every(change => !change.isNewFile && isUserFile(change.fileName)),
+				)
+				.map(action => ({
+					fixName: action.fixName,
+					description: action.description,
+					edits: action.changes.flatMap(change =>
+						change.textChanges.map(textChange => toTextEdit(change.fileName, textChange)),
+					),
+				}));
+		},
+		dispose: () => languageService?.dispose(),
+	};
+}
+
+export function toTextEdit(fileName: string, textChange: ts.TextChange): UserCodeTextEdit {
+	return { fileName, start: textChange.span.start, length: textChange.span.length, newText: textChange.newText };
+}
+
+/** Apply edits that do not overlap to the text of a file, ignoring the edits of other files */
+export function applyTextEdits(text: string, edits: UserCodeTextEdit[], fileName: string): string {
+	// Last first, so that the offsets of the others stay valid
+	return edits
+		.filter(edit => edit.fileName === fileName)
+		.sort((a, b) => b.start - a.start)
+		.reduce((text, edit) => text.slice(0, edit.start) + edit.newText + text.slice(edit.start + edit.length), text);
+}
@@ -0,0 +1,59 @@
+import ts from 'typescript';
+
+// The global instrumented user code calls, defined by evaluateExecutionHarness. The no-reserved-names policy rule keeps
+// user code from declaring it.
+export const DEADLINE_CHECK_NAME = '__checkDeadline';
+
+/**
+ * Insert a call to the deadline check at the start of every function and loop body, the only ways code can keep running.
+ * The vm timeout only bounds the synchronous part of an evaluation, while code that runs after an await is a microtask,
+ * which would starve the event loop of the host for as long as it runs. With the checks it stops itself at the deadline.
+ */
+export function createDeadlineCheckTransformer(): ts.TransformerFactory<ts.SourceFile> {
+	return context => {
+		const { factory } = context;
+		const createCheck = () =>
+			factory.createExpressionStatement(
+				factory.createCallExpression(factory.createIdentifier(DEADLINE_CHECK_NAME), undefined, []),
+			);
+		// After the prologue, so that 'use strict' and other directives keep applying
+		const prependCheck = (block: ts.Block) => {
+			const prologueLength = block.statements.findIndex(
+				statement => !ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression),
+			);
+			const index = prologueLength === -1 ? block.statements.length : prologueLength;
+			return factory.updateBlock(block, [
+				...block.statements.slice(0, index),
+				createCheck(),
+				...block.statements.slice(index),
+			]);
+		};
+
+		const visit = (node: ts.Node, parent: ts.Node | undefined): ts.Node => {
+			const visited = ts.visitEachChild(node, child => visit(child, node), context);
+			if (ts.isArrowFunction(visited) && !ts.isBlock(visited.body)) {
+				return factory.updateArrowFunction(
+					visited,
+					visited.modifiers,
+					visited.typeParameters,
+					visited.parameters,
+					visited.type,
+					visited.equalsGreaterThanToken,
+					factory.createBlock([createCheck(), factory.createReturnStatement(visited.body)], true),
+				);
+			}
+			if (parent === undefined || !ts.isStatement(visited)) {
+				return visited;
+			}
+			if (ts.isFunctionLike(parent) && (parent as ts.FunctionLikeDeclaration).body === node && ts.isBlock(visited)) {
+				return prependCheck(visited);
+			}
+			if (ts.isIterationStatement(parent, false) && parent.statement === node) {
+				return ts.isBlock(visited) ? prependCheck(visited) : factory.createBlock([createCheck(), visited], true);
+			}
+			return visited;
+		};
+
+		return sourceFile => ts.visitEachChild(sourceFile, child => visit(child, sourceFile), context);
+	};
+}
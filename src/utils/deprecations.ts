@@ -0,0 +1,72 @@
+import ts from 'typescript';
+
+const DEPRECATED_DIAGNOSTIC_CODE = 6385; // '{0}' is deprecated.
+
+/**
+ * Find the references of a user file to library symbols marked with a JSDoc @deprecated tag. The tag's comment is
+ * appended to the message, e.g. "'oldGoal' is deprecated. Use newGoal instead."
+ */
+export function getDeprecationDiagnostics(
+	userSourceFile: ts.SourceFile,
+	typeChecker: ts.TypeChecker,
+	isLibraryFile: (sourceFile: ts.SourceFile) => boolean,
+): ts.Diagnostic[] {
+	const diagnostics: ts.Diagnostic[] = [];
+
+	const getDeprecatedTag = (declaration: ts.Declaration): ts.JSDocDeprecatedTag | undefined =>
+		isLibraryFile(declaration.getSourceFile()) ? ts.getJSDocDeprecatedTag(declaration) : undefined;
+
+	const visit = (node: ts.Node): void => {
+		// Importing a deprecated symbol is not a use of it, the references to the import are reported instead
+		if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+			return;
+		}
+		if (ts.isIdentifier(node)) {
+			// The called declaration of new Old() is the constructor, the class is deprecated as the symbol
+			const calledDeclaration = getCalledDeclaration(node);
+			const deprecatedTag =
+				(calledDeclaration !== undefined ? getDeprecatedTag(calledDeclaration) : undefined) ??
+				getSymbolDeprecatedTag(node);
+			if (deprecatedTag !== undefined) {
+				const comment = ts.getTextOfJSDocComment(deprecatedTag.comment);
+				diagnostics.push({
+					file: userSourceFile,
+					start: node.getStart(userSourceFile),
+					length: node.getWidth(userSourceFile),
+					category: ts.DiagnosticCategory.Warning,
+					code: DEPRECATED_DIAGNOSTIC_CODE,
+					messageText: `'${node.text}' is deprecated.${comment ? ` ${comment}` : ''}`,
+				});
+			}
+		}
+		ts.forEachChild(node, visit);
+	};
+
+	// Overloads may be deprecated one by one, so for calls only the signature that is called matters
+	const getCalledDeclaration = (identifier: ts.Identifier): ts.Declaration | undefined => {
+		const callee =
+			ts.isPropertyAccessExpression(identifier.parent) && identifier.parent.name === identifier
+				? identifier.parent
+				: identifier;
+		const call = callee.parent;
+		if (!(ts.isCallExpression(call) || ts.isNewExpression(call)) || call.expression !== callee) {
+			return undefined;
+		}
+		const declaration = typeChecker.getResolvedSignature(call)?.declaration;
+		return declaration === undefined || ts.isJSDocSignature(declaration) ? undefined : declaration;
+	};
+
+	const getSymbolDeprecatedTag = (identifier: ts.Identifier): ts.JSDocDeprecatedTag | undefined => {
+		let symbol = typeChecker.getSymbolAtLocation(identifier);
+		if (symbol !== undefined && symbol.flags & ts.SymbolFlags.Alias) {
+			symbol = typeChecker.getAliasedSymbol(symbol);
+		}
+		const declarations = symbol?.declarations ?? [];
+		const deprecatedTags = declarations.map(getDeprecatedTag);
+		// A symbol is only deprecated as a whole if each of its declarations is
+		return deprecatedTags.length > 0 && deprecatedTags.every(tag => tag !== undefined) ? deprecatedTags[0] : undefined;
+	};
+
+	visit(userSourceFile);
+	return diagnostics;
+}
@@ -0,0 +1,130 @@
+import vm from 'vm';
+import { types } from 'util';
+import { ModuleMap, VirtualModuleResolver } from './moduleResolution.js';
+import { DEADLINE_CHECK_NAME } from './deadlineChecks.js';
+import type { UserCodeFrame } from './userCodeSampler.js';
+import type { UserCodeExecutionPhase } from '../UserCodeRunner.js';
+
+// The deadline check of the current execution in each context, looked up by the global that user code calls
+const deadlineChecks = new WeakMap<vm.Context, () => void>();
+
+// Thrown by the executors when the user code has not finished by the deadline
+export class ExecutionTimeoutError extends Error {
+	constructor(public readonly phase: UserCodeExecutionPhase, public lastUserCodeFrame?: UserCodeFrame) {
+		super(`Execution timed out while in phase: ${phase}`);
+	}
+}
+
+// Thrown by the executors when the AbortSignal of the execution is aborted before it finished
+export class ExecutionCancelledError extends Error {}
+
+/**
+ * Link the modules of preprocessed user code in a context and evaluate the execution harness, returning the value the
+ * user code returned. Shared by the executors, so that user code behaves the same in the host and in a worker.
+ */
+export async function evaluateExecutionHarness(
+	jsFileMap: { [key: string]: string },
+	harnessModuleKey: string,
+	args: unknown[],
+	context: vm.Context,
+	timeout: number, // Bounds the whole evaluation, including awaiting the result
+	moduleMap: ModuleMap,
+	signal?: AbortSignal,
+	onAwaitingResult: () => void = () => {}, // Called if the user code returned a promise that is awaited
+): Promise<unknown> {
+	// Put args and result into context
+	context.__args = args;
+	context.__result = undefined;
+
+	// The harness stores the promise returned by an async entrypoint in __result while it awaits it
+	const getPhase = (): UserCodeExecutionPhase => (types.isPromise(context.__result) ? 'awaiting-result' : 'evaluation');
+	const deadline = Date.now() + timeout;
+	// Once stopped, the deadline checks keep throwing, e.g. at user code that resumes when a host promise it awaited settles.
+	// Once finished they do nothing, as the result may hold functions that are called later.
+	let outcome: 'running' | 'finished' | ExecutionTimeoutError | ExecutionCancelledError = 'running';
+	const stop = (error: ExecutionTimeoutError | ExecutionCancelledError) => {
+		if (outcome === 'running') {
+			outcome = error;
+		}
+		return typeof outcome === 'string' ? error : outcome;
+	};
+	// The vm timeout stops the synchronous part itself, checks that throw as it does would race it
+	let synchronous = true;
+	// Defined once per context and replaced by the next execution through the map. Not enumerable, so that the globals
+	// user code sees are the same as before, and neither writable nor configurable, so that user code cannot replace it.
+	if (!deadlineChecks.has(context)) {
+		Object.defineProperty(context, DEADLINE_CHECK_NAME, { value: () => deadlineChecks.get(context)!() });
+	}
+	deadlineChecks.set(context, () => {
+		if (synchronous) {
+			return;
+		}
+		if (outcome === 'running' && Date.now() >= deadline) {
+			stop(new ExecutionTimeoutError(getPhase()));
+		}
+		if (typeof outcome !== 'string') {
+			throw new Error(
+				outcome instanceof ExecutionCancelledError
+					? 'Script execution was cancelled'
+					: `Script execution timed out after ${timeout}ms`,
+			);
+		}
+	});
+
+	// Create modules for VM
+	const moduleCache = new Map<string, vm.Module>();
+	for (const [fileName, content] of Object.entries(jsFileMap)) {
+		moduleCache.set(
+			fileName,
+			new vm.SourceTextModule(content, {
+				identifier: fileName,
+				context,
+			}),
+		);
+	}
+	const harnessModule = moduleCache.get(harnessModuleKey)!;
+	const moduleResolver = new VirtualModuleResolver(moduleCache.keys(), moduleMap);
+	await harnessModule.link((specifier, referencingModule) => {
+		const moduleKey = moduleResolver.resolve(specifier, referencingModule.identifier);
+		if (moduleKey !== undefined) {
+			return moduleCache.get(moduleKey)!;
+		}
+		throw new Error(`Unable to resolve dependency: ${specifier}`);
+	});
+
+	let deadlineTimer: NodeJS.Timeout | undefined;
+	let onAbort = () => {};
+	try {
+		// The vm timeout bounds the synchronous part of the evaluation, the deadline checks the user code that runs in
+		// microtasks after it, and the timer the time spent waiting, e.g. on a promise that never settles
+		const evaluation = harnessModule.evaluate({ timeout });
+		synchronous = false;
+		if (getPhase() === 'awaiting-result') {
+			onAwaitingResult();
+		}
+		await Promise.race([
+			evaluation,
+			new Promise<never>((_, reject) => {
+				deadlineTimer = setTimeout(() => reject(stop(new ExecutionTimeoutError(getPhase()))), deadline - Date.now());
+				onAbort = () => reject(stop(new ExecutionCancelledError()));
+				signal?.addEventListener('abort', onAbort, { once: true });
+			}),
+		]);
+		if (typeof outcome !== 'string') {
+			// The user code caught the error of a deadline check
+			throw outcome;
+		}
+		outcome = 'finished';
+		return context.__result;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException | undefined)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+			throw stop(new ExecutionTimeoutError('evaluation'));
+		}
+		throw typeof outcome === 'string' ? error : outcome;
+	} finally {
+		clearTimeout(deadlineTimer);
+		signal?.removeEventListener('abort', onAbort);
+		delete context.__args;
+		delete context.__result;
+	}
+}
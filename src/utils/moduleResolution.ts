@@ -0,0 +1,105 @@
+import path from 'path';
+
+/**
+ * Maps bare import specifiers to additional source files, in the style of the tsconfig.json "paths" option.
+ * A key may contain a single "*" that is substituted into the target, e.g.
+ * { 'aerie/constraints': 'constraints/index.ts', 'aerie/constraints/*': 'constraints/*.ts' }
+ */
+export type ModuleMap = { [specifier: string]: string };
+
+/** Identify a virtual file by its normalized path without the extension */
+export function getModuleKey(fileName: string): string {
+	const normalizedFileName = path.posix.normalize(fileName);
+	return normalizedFileName.slice(0, normalizedFileName.length - path.posix.extname(normalizedFileName).length);
+}
+
+/** Throw if a module map has malformed wildcard patterns */
+export function validateModuleMap(moduleMap: ModuleMap): void {
+	for (const [specifier, target] of Object.entries(moduleMap)) {
+		const specifierWildcards = specifier.split('*').length - 1;
+		const targetWildcards = target.split('*').length - 1;
+		if (specifierWildcards > 1 || targetWildcards > specifierWildcards) {
+			throw new Error(`Invalid module map entry: '${specifier}' -> '${target}'`);
+		}
+		if (isRelative(specifier)) {
+			throw new Error(`Module map specifiers must not be relative: '${specifier}'`);
+		}
+	}
+}
+
+/**
+ * Resolves import specifiers to module keys. The compiler host and the vm linker both resolve through this class so
+ * that type checking and execution agree on which file an import refers to.
+ */
+export class VirtualModuleResolver {
+	private readonly moduleKeys: ReadonlySet<string>;
+	private readonly moduleMap: ModuleMap;
+
+	constructor(moduleKeys: Iterable<string>, moduleMap: ModuleMap = {}) {
+		this.moduleKeys = new Set(moduleKeys);
+		this.moduleMap = moduleMap;
+	}
+
+	public resolve(specifier: string, referencingModuleKey: string): string | undefined {
+		// Relative specifiers are resolved against the directory of the importing file
+		if (isRelative(specifier)) {
+			return this.resolvePath(path.posix.join(path.posix.dirname(referencingModuleKey), specifier));
+		}
+		// Absolute specifiers, e.g. those of library files with absolute names, are never mapped either
+		if (path.posix.isAbsolute(specifier)) {
+			return this.resolvePath(specifier);
+		}
+
+		const mappedPath = this.applyModuleMap(specifier);
+		if (mappedPath !== undefined) {
+			return this.resolvePath(mappedPath);
+		}
+
+		// Other bare specifiers are paths from the root of the virtual file system
+		const moduleKey = this.resolvePath(specifier);
+		if (moduleKey !== undefined || specifier.includes('/')) {
+			return moduleKey;
+		}
+
+		// Files outside the root have always been importable by their base name, as long as that is unambiguous
+		const baseNameMatches = [...this.moduleKeys].filter(
+			moduleKey => path.posix.basename(moduleKey) === getModuleKey(specifier),
+		);
+		return baseNameMatches.length === 1 ? baseNameMatches[0] : undefined;
+	}
+
+	private resolvePath(filePath: string): string | undefined {
+		const moduleKey = getModuleKey(filePath);
+		return [moduleKey, `${moduleKey}.d`, `${moduleKey}/index`, `${moduleKey}/index.d`].find(candidate =>
+			this.moduleKeys.has(candidate),
+		);
+	}
+
+	private applyModuleMap(specifier: string): string | undefined {
+		if (Object.prototype.hasOwnProperty.call(this.moduleMap, specifier)) {
+			return this.moduleMap[specifier];
+		}
+		// Like the tsconfig.json "paths" option, the pattern with the longest prefix wins
+		let bestMatch: { prefixLength: number; target: string } | undefined;
+		for (const [pattern, target] of Object.entries(this.moduleMap)) {
+			const wildcardIndex = pattern.indexOf('*');
+			if (wildcardIndex === -1) continue;
+			const prefix = pattern.slice(0, wildcardIndex);
+			const suffix = pattern.slice(wildcardIndex + 1);
+			if (
+				specifier.length >= prefix.length + suffix.length &&
+				specifier.startsWith(prefix) &&
+				specifier.endsWith(suffix) &&
+				(bestMatch === undefined || prefix.length > bestMatch.prefixLength)
+			) {
+				const substitution = specifier.slice(prefix.length, specifier.length - suffix.length);
+				bestMatch = { prefixLength: prefix.length, target: target.replace('*', substitution) };
+			}
+		}
+		return bestMatch?.target;
+	}
+}
+
+function isRelative(specifier: string): boolean {
+	return specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../');
+}
@@ -0,0 +1,231 @@
+import ts from 'typescript';
+
+/**
+ * A JSON serializable description of a TypeScript type, precise enough to check values at runtime. Types that cannot
+ * be checked at runtime, like type parameters or recursive references, are described as 'any'.
+ */
+export type TypeSchema =
+	| { kind: 'any' }
+	| { kind: 'primitive'; type: 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'undefined' | 'null' }
+	| { kind: 'literal'; value: string | number | boolean }
+	| { kind: 'union'; members: TypeSchema[] }
+	| { kind: 'array'; element: TypeSchema }
+	| { kind: 'tuple'; elements: TypeSchema[]; minLength: number }
+	| {
+			kind: 'object';
+			properties: { [name: string]: { type: TypeSchema; optional: boolean } };
+			indexType?: TypeSchema; // Type of the values of a string index signature, e.g. for { [key: string]: number }
+	  }
+	| { kind: 'function' };
+
+export interface TypeSchemaMismatch {
+	path: (string | number)[]; // Property names and array indices from the checked value to the offending value
+	expected: string;
+	actual: string;
+}
+
+const MAX_DEPTH = 16;
+
+export function createTypeSchema(type: ts.Type, typeChecker: ts.TypeChecker): TypeSchema {
+	// Types being described further up, a type that contains itself is only checked to the depth where it recurs
+	const ancestors = new Set<ts.Type>();
+
+	const create = (type: ts.Type): TypeSchema => {
+		if (ancestors.has(type) || ancestors.size >= MAX_DEPTH) {
+			return { kind: 'any' };
+		}
+		ancestors.add(type);
+		try {
+			return describe(type);
+		} finally {
+			ancestors.delete(type);
+		}
+	};
+
+	const describe = (type: ts.Type): TypeSchema => {
+		const flags = type.flags;
+		if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter)) {
+			return { kind: 'any' };
+		}
+		if (flags & ts.TypeFlags.Boolean) {
+			return { kind: 'primitive', type: 'boolean' };
+		}
+		if (type.isUnion()) {
+			return { kind: 'union', members: type.types.map(create) };
+		}
+		if (type.isStringLiteral() || type.isNumberLiteral()) {
+			return { kind: 'literal', value: type.value };
+		}
+		if (flags & ts.TypeFlags.BooleanLiteral) {
+			return { kind: 'literal', value: typeChecker.typeToString(type) === 'true' };
+		}
+		if (flags & ts.TypeFlags.StringLike) return { kind: 'primitive', type: 'string' };
+		if (flags & ts.TypeFlags.NumberLike) return { kind: 'primitive', type: 'number' };
+		if (flags & ts.TypeFlags.BigIntLike) return { kind: 'primitive', type: 'bigint' };
+		if (flags & ts.TypeFlags.ESSymbolLike) return { kind: 'primitive', type: 'symbol' };
+		if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) return { kind: 'primitive', type: 'undefined' };
+		if (flags & ts.TypeFlags.Null) return { kind: 'primitive', type: 'null' };
+
+		if (typeChecker.isTupleType(type)) {
+			const tupleType = type as ts.TupleTypeReference;
+			if (tupleType.target.hasRestElement) {
+				return { kind: 'array', element: { kind: 'any' } };
+			}
+			return {
+				kind: 'tuple',
+				elements: typeChecker.getTypeArguments(tupleType).map(create),
+				minLength: tupleType.target.minLength,
+			};
+		}
+		if (typeChecker.isArrayType(type)) {
+			return { kind: 'array', element: create(typeChecker.getTypeArguments(type as ts.TypeReference)[0]) };
+		}
+		if (flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) {
+			const properties = typeChecker.getPropertiesOfType(type);
+			if (properties.length === 0 && type.getCallSignatures().length > 0) {
+				return { kind: 'function' };
+			}
+			const schema: TypeSchema & { kind: 'object' } = { kind: 'object', properties: {} };
+			for (const property of properties) {
+				if (isSymbolOrPrivateName(property)) continue;
+				const propertyType = typeChecker.getTypeOfSymbol(property);
+				schema.properties[property.name] = {
+					type: create(propertyType),
+					optional: (property.flags & ts.SymbolFlags.Optional) !== 0,
+				};
+			}
+			const stringIndexInfo = typeChecker
+				.getIndexInfosOfType(type)
+				.find(indexInfo => indexInfo.keyType.flags & ts.TypeFlags.String);
+			if (stringIndexInfo !== undefined) {
+				schema.indexType = create(stringIndexInfo.type);
+			}
+			return schema;
+		}
+		return { kind: 'any' };
+	};
+
+	return create(type);
+}
+
+// Properties like [Symbol.iterator] of a Map or #private fields of a class are not reachable by name on the value
+function isSymbolOrPrivateName(property: ts.Symbol): boolean {
+	// The escaped names of these start with '__@' and '__#', those of other properties that start with '__' get another '_'
+	const escapedName = property.escapedName as string;
+	return escapedName.startsWith('__@') || escapedName.startsWith('__#');
+}
+
+/** Check a value against a schema, returning where and how it differs first, or undefined if it matches */
+export function validateTypeSchema(
+	value: unknown,
+	schema: TypeSchema,
+	path: (string | number)[] = [],
+): TypeSchemaMismatch | undefined {
+	const mismatch = (): TypeSchemaMismatch => ({
+		path,
+		expected: describeTypeSchema(schema),
+		actual: describeValue(value),
+	});
+
+	switch (schema.kind) {
+		case 'any':
+			return undefined;
+		case 'primitive':
+			if (schema.type === 'null') return value === null ? undefined : mismatch();
+			return typeof value === schema.type ? undefined : mismatch();
+		case 'literal':
+			return value === schema.value ? undefined : mismatch();
+		case 'function':
+			return typeof value === 'function' ? undefined : mismatch();
+		case 'union': {
+			const memberMismatches = schema.members.map(member => validateTypeSchema(value, member, path));
+			if (memberMismatches.some(memberMismatch => memberMismatch === undefined)) {
+				return undefined;
+			}
+			// Report the member that matched deepest, which is most likely the one that was intended
+			const deepestMismatch = memberMismatches.reduce((deepest, memberMismatch) =>
+				memberMismatch!.path.length > deepest!.path.length ? memberMismatch : deepest,
+			)!;
+			return deepestMismatch.path.length > path.length ? deepestMismatch : mismatch();
+		}
+		case 'array':
+			if (!Array.isArray(value)) return mismatch();
+			for (let index = 0; index < value.length; index++) {
+				const elementMismatch = validateTypeSchema(value[index], schema.element, [...path, index]);
+				if (elementMismatch !== undefined) return elementMismatch;
+			}
+			return undefined;
+		case 'tuple':
+			if (!Array.isArray(value) || value.length < schema.minLength || value.length > schema.elements.length) {
+				return mismatch();
+			}
+			for (let index = 0; index < value.length; index++) {
+				const elementMismatch = validateTypeSchema(value[index], schema.elements[index], [...path, index]);
+				if (elementMismatch !== undefined) return elementMismatch;
+			}
+			return undefined;
+		case 'object': {
+			if ((typeof value !== 'object' && typeof value !== 'function') || value === null) {
+				return mismatch();
+			}
+			const object = value as { [name: string]: unknown };
+			for (const [name, property] of Object.entries(schema.properties)) {
+				if (property.optional && object[name] === undefined) continue;
+				const propertyMismatch = validateTypeSchema(object[name], property.type, [...path, name]);
+				if (propertyMismatch !== undefined) return propertyMismatch;
+			}
+			if (schema.indexType !== undefined) {
+				for (const [name, propertyValue] of Object.entries(object)) {
+					if (name in schema.properties) continue;
+					const propertyMismatch = validateTypeSchema(propertyValue, schema.indexType, [...path, name]);
+					if (propertyMismatch !== undefined) return propertyMismatch;
+				}
+			}
+			return undefined;
+		}
+	}
+}
+
+/** Format a path like a property access expression, e.g. $.goals[1].interval */
+export function formatTypeSchemaPath(path: (string | number)[]): string {
+	return path
+		.map(segment =>
+			typeof segment === 'number'
+				? `[${segment}]`
+				: /^[A-Za-z_$][\w$]*$/.test(segment)
+				? `.${segment}`
+				: `[${JSON.stringify(segment)}]`,
+		)
+		.reduce((formattedPath, segment) => formattedPath + segment, '$');
+}
+
+function describeTypeSchema(schema: TypeSchema): string {
+	switch (schema.kind) {
+		case 'any':
+		case 'function':
+			return schema.kind;
+		case 'primitive':
+			return schema.type;
+		case 'literal':
+			return JSON.stringify(schema.value);
+		case 'union':
+			return schema.members.map(describeTypeSchema).join(' | ');
+		case 'array':
+			return schema.element.kind === 'union'
+				? `(${describeTypeSchema(schema.element)})[]`
+				: `${describeTypeSchema(schema.element)}[]`;
+		case 'tuple':
+			return `[${schema.elements.map(describeTypeSchema).join(', ')}]`;
+		case 'object':
+			return 'object';
+	}
+}
+
+function describeValue(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return JSON.stringify(value);
+	}
+	return typeof value;
+}
@@ -0,0 +1,250 @@
+import path from 'path';
+import ts from 'typescript';
+import { getModuleKey, ModuleMap, VirtualModuleResolver } from './moduleResolution.js';
+import type { SignatureTypeImport } from '../Signature.js';
+import type { ExportSignature, UserCodeCompilerOptions, UserCodeLanguage, UserCodeProject } from '../UserCodeRunner.js';
+
+// The virtual files and compiler options user code is checked with, shared by the runner and the language service
+
+export const EXECUTION_HARNESS_FILENAME = '__execution_harness';
+export const USER_CODE_FILENAME = '__user_file';
+export const JAVASCRIPT_OUT_DIR = '__out';
+
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+	target: ts.ScriptTarget.ESNext,
+	module: ts.ModuleKind.ES2022,
+	lib: ['lib.esnext.d.ts'],
+	sourceMap: true,
+	// Reported as warnings rather than errors, see WARNING_DIAGNOSTIC_SEVERITIES of the runner
+	noUnusedLocals: true,
+	noUnusedParameters: true,
+	allowUnreachableCode: false,
+	allowUnusedLabels: false,
+};
+
+const CONFIGURABLE_COMPILER_OPTIONS = [
+	'strict',
+	'noImplicitAny',
+	'noUncheckedIndexedAccess',
+	'exactOptionalPropertyTypes',
+	'lib',
+] as const;
+
+export function createFormatCodeSettings(formatOptions: ts.FormatCodeSettings): ts.FormatCodeSettings {
+	return { ...ts.getDefaultFormatCodeSettings('\n'), ...formatOptions };
+}
+
+export interface ExecutionHarnessEntrypoint extends ExportSignature {
+	harnessModuleKey: string;
+	exportName: string;
+	typeImports?: SignatureTypeImport[];
+}
+
+export function createCompilerOptions(
+	compilerOptions: UserCodeCompilerOptions,
+	language: UserCodeLanguage,
+): ts.CompilerOptions {
+	const unsupportedOptions = Object.keys(compilerOptions).filter(
+		option => !(CONFIGURABLE_COMPILER_OPTIONS as readonly string[]).includes(option),
+	);
+	if (unsupportedOptions.length > 0) {
+		throw new Error(
+			`Unsupported compiler options: ${unsupportedOptions.join(
+				', ',
+			)}. Supported compiler options are: ${CONFIGURABLE_COMPILER_OPTIONS.join(', ')}`,
+		);
+	}
+	// Let TypeScript validate the values and translate library names, the same as it would for a tsconfig.json
+	const { options, errors } = ts.convertCompilerOptionsFromJson(compilerOptions, '');
+	if (errors.length > 0) {
+		throw new Error(
+			`Invalid compiler options: ${errors
+				.map(error => ts.flattenDiagnosticMessageText(error.messageText, '\n'))
+				.join('\n')}`,
+		);
+	}
+	if (language === 'javascript') {
+		// Emitting to a separate directory keeps the compiler from refusing to overwrite the .js user files
+		return { ...DEFAULT_COMPILER_OPTIONS, ...options, allowJs: true, checkJs: true, outDir: JAVASCRIPT_OUT_DIR };
+	}
+	return { ...DEFAULT_COMPILER_OPTIONS, ...options };
+}
+
+// The harness runs the entrypoint against the __args and __result globals of the vm context
+export function createExecutionHarnessCode(
+	entryModuleKey: string,
+	{ exportName, outputType, argsTypes, typeImports = [] }: ExecutionHarnessEntrypoint,
+	additionalSourceFiles: ts.SourceFile[],
+): string {
+	if (!/^[A-Za-z_$][\w$]*$/.test(exportName)) {
+		throw new Error(`Invalid export name: ${exportName}`);
+	}
+	const entrypointImportClause = exportName === 'default' ? 'entrypoint' : `{ ${exportName} as entrypoint }`;
+
+	// Declared per module rather than globally so that harnesses for several exports can be checked together
+	return `
+			${additionalSourceFiles
+				.map(file => {
+					if (file.fileName.endsWith('.d.ts')) return '';
+					// Prefixing an absolute module key with './' would resolve it against the directory of the harness
+					const moduleKey = getModuleKey(file.fileName);
+					return `import '${path.posix.isAbsolute(moduleKey) ? moduleKey : `./${moduleKey}`}';`;
+				})
+				.join('\n  ')}
+			${typeImports.map(({ name, from }) => `import type { ${name} } from '${from}';`).join('\n  ')}
+      import ${entrypointImportClause} from './${entryModuleKey}';
+            
+      declare const __args: [${argsTypes.join(', ')}];
+      declare let __result: ${outputType} | Promise<${outputType}>;
+
+      __result = entrypoint(...__args);
+      
+      if ((__result as any) instanceof Promise) {
+      	__result = await __result;
+      }
+    `;
+}
+
+/**
+ * The virtual files user code is checked with by module key, looked up by the file names the compiler asks for. Shared by
+ * the compiler host of the runner and the host of the language service, so that both find and resolve the same files.
+ */
+export class VirtualFileLookup<File extends { fileName: string }> {
+	private readonly moduleKeysByFileName: Map<string, string>;
+	private readonly moduleResolver: VirtualModuleResolver;
+
+	constructor(
+		public readonly files: ReadonlyMap<string, File>,
+		moduleMap: ModuleMap,
+		private readonly isJavaScriptFile: (file: File) => boolean,
+	) {
+		this.moduleKeysByFileName = new Map([...files].map(([moduleKey, file]) => [file.fileName, moduleKey]));
+		this.moduleResolver = new VirtualModuleResolver(files.keys(), moduleMap);
+	}
+
+	// The harness and single file user code have no extension, which the compiler appends when looking them up
+	public getModuleKeyOfFile(fileName: string): string | undefined {
+		return this.moduleKeysByFileName.get(fileName) ?? this.moduleKeysByFileName.get(getModuleKey(fileName));
+	}
+
+	public getFile(fileName: string): File | undefined {
+		const moduleKey = this.getModuleKeyOfFile(fileName);
+		return moduleKey === undefined ? undefined : this.files.get(moduleKey);
+	}
+
+	public resolveModuleNames(moduleNames: string[], containingFile: string): (ts.ResolvedModuleFull | undefined)[] {
+		const containingModuleKey = this.getModuleKeyOfFile(containingFile) ?? '';
+		return moduleNames.map(moduleName => {
+			const moduleKey = this.moduleResolver.resolve(moduleName, containingModuleKey);
+			if (moduleKey === undefined) {
+				return undefined;
+			}
+			const file = this.files.get(moduleKey)!;
+			return {
+				resolvedFileName: file.fileName,
+				extension: file.fileName.endsWith('.d.ts')
+					? ts.Extension.Dts
+					: this.isJavaScriptFile(file)
+					? ts.Extension.Js
+					: ts.Extension.Ts,
+			};
+		});
+	}
+}
+
+// A file of the virtual environment as a language service sees it
+export interface VirtualFile {
+	fileName: string;
+	text: string;
+	version: number; // Unique across language services, see createFileVersion
+	scriptKind: ts.ScriptKind; // Unknown to let the compiler tell it by the extension
+}
+
+// Shared by every language service, so that library files are parsed once. The registry tells files of the same name
+// apart by their version, which is why versions are unique across services
+const documentRegistry = ts.createDocumentRegistry();
+let lastFileVersion = 0;
+
+export function createFileVersion(): number {
+	return ++lastFileVersion;
+}
+
+export function createVirtualFileLookup(
+	files: ReadonlyMap<string, VirtualFile>,
+	moduleMap: ModuleMap,
+): VirtualFileLookup<VirtualFile> {
+	return new VirtualFileLookup(
+		files,
+		moduleMap,
+		file => file.scriptKind === ts.ScriptKind.JS || file.fileName.endsWith('.js'),
+	);
+}
+
+/**
+ * Create a language service over virtual files and the TypeScript libraries. The files are looked up anew for every
+ * request, so that the caller can replace them in between.
+ */
+export function createVirtualLanguageService(
+	compilerOptions: ts.CompilerOptions,
+	getRootFileNames: () => string[],
+	getFileLookup: () => VirtualFileLookup<VirtualFile>,
+): ts.LanguageService {
+	const getFile = (fileName: string) => getFileLookup().getFile(fileName);
+	const readFile = (fileName: string) =>
+		getFile(fileName)?.text ?? (fileName.includes('typescript/lib') ? ts.sys.readFile(fileName) : undefined);
+	return ts.createLanguageService(
+		{
+			getCompilationSettings: () => compilerOptions,
+			getScriptFileNames: getRootFileNames,
+			getScriptVersion: fileName => String(getFile(fileName)?.version ?? 0),
+			getScriptSnapshot: fileName => {
+				const text = readFile(fileName);
+				return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+			},
+			// Extensions do not tell the kind of the harness and of single file user code
+			getScriptKind: fileName => getFile(fileName)?.scriptKind ?? ts.ScriptKind.Unknown,
+			getCurrentDirectory: () => '',
+			getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+			fileExists: fileName => getFile(fileName) !== undefined,
+			readFile,
+			resolveModuleNames: (moduleNames, containingFile) =>
+				getFileLookup().resolveModuleNames(moduleNames, containingFile),
+		},
+		documentRegistry,
+	);
+}
+
+export function getExecutionHarnessModuleKey(exportName: string): string {
+	return `${EXECUTION_HARNESS_FILENAME}__${exportName}`;
+}
+
+export function validateProject(
+	project: UserCodeProject,
+	additionalSourceFiles: ts.SourceFile[],
+	language: UserCodeLanguage,
+): void {
+	const userFileExtension = language === 'javascript' ? '.js' : '.ts';
+	const reservedModuleKeys = [USER_CODE_FILENAME, ...additionalSourceFiles.map(file => getModuleKey(file.fileName))];
+	const moduleKeys = new Set<string>();
+	for (const fileName of Object.keys(project.files)) {
+		const normalizedFileName = path.posix.normalize(fileName);
+		if (path.posix.isAbsolute(normalizedFileName) || normalizedFileName.startsWith('../')) {
+			throw new Error(`User file names must be relative to the project root: ${fileName}`);
+		}
+		if (path.posix.extname(normalizedFileName) !== userFileExtension || normalizedFileName.endsWith('.d.ts')) {
+			throw new Error(`User file names must end in ${userFileExtension}: ${fileName}`);
+		}
+		const moduleKey = getModuleKey(normalizedFileName);
+		if (
+			moduleKeys.has(moduleKey) ||
+			reservedModuleKeys.includes(moduleKey) ||
+			moduleKey.startsWith(EXECUTION_HARNESS_FILENAME)
+		) {
+			throw new Error(`User file name conflicts with another user or library file: ${fileName}`);
+		}
+		moduleKeys.add(moduleKey);
+	}
+	if (!moduleKeys.has(getModuleKey(project.entry))) {
+		throw new Error(`Entry file not found in project: ${project.entry}`);
+	}
+}
@@ -0,0 +1,70 @@
+import inspector from 'inspector';
+
+// A position in the emitted JavaScript of a user module, lines are 1-based and columns 0-based like in source maps
+export interface UserCodeFrame {
+	moduleKey: string;
+	line: number;
+	column: number;
+}
+
+// Microseconds between samples, fine enough to catch a loop that runs until the timeout
+const SAMPLING_INTERVAL = 1000;
+
+/**
+ * Start sampling the stack of the current thread with the CPU profiler of the inspector, returning a function that stops
+ * it and returns the innermost frame of the user modules in the last sample that had one. Used to tell where user code
+ * was running when it timed out, as the timeout error itself has no frames of the user code.
+ */
+export async function startUserCodeSampler(
+	userModuleKeys: string[],
+): Promise<() => Promise<UserCodeFrame | undefined>> {
+	const session = new inspector.Session();
+	session.connect();
+	const post = <T>(method: string, params?: object) =>
+		new Promise<T>((resolve, reject) =>
+			session.post(method, params, (error, result) => (error === null ? resolve(result as T) : reject(error))),
+		);
+
+	await post('Profiler.enable');
+	await post('Profiler.setSamplingInterval', { interval: SAMPLING_INTERVAL });
+	await post('Profiler.start');
+
+	return async () => {
+		try {
+			const { profile } = await post<{ profile: inspector.Profiler.Profile }>('Profiler.stop');
+			return findLastUserCodeFrame(profile, userModuleKeys);
+		} finally {
+			session.disconnect();
+		}
+	};
+}
+
+function findLastUserCodeFrame(
+	profile: inspector.Profiler.Profile,
+	userModuleKeys: string[],
+): UserCodeFrame | undefined {
+	const nodes = new Map(profile.nodes.map(node => [node.id, node]));
+	const parents = new Map<number, inspector.Profiler.ProfileNode>();
+	for (const node of profile.nodes) {
+		for (const childId of node.children ?? []) {
+			parents.set(childId, node);
+		}
+	}
+
+	for (const sample of [...(profile.samples ?? [])].reverse()) {
+		// Walk from the innermost frame outwards, past frames of library code the user code called
+		let node = nodes.get(sample);
+		while (node !== undefined && !userModuleKeys.includes(node.callFrame.url)) {
+			node = parents.get(node.id);
+		}
+		if (node !== undefined) {
+			const { url, lineNumber, columnNumber } = node.callFrame;
+			// Frames only tell where their function starts, the line that was sampled most within it is more telling
+			const hottestLine = node.positionTicks?.reduce((hottest, line) => (line.ticks > hottest.ticks ? line : hottest));
+			return hottestLine === undefined
+				? { moduleKey: url, line: lineNumber + 1, column: columnNumber }
+				: { moduleKey: url, line: hottestLine.line, column: 0 };
+		}
+	}
+	return undefined;
+}
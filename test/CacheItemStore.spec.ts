@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemCacheItemStore, InMemoryLRUCacheItemStore } from '../src/CacheItemStore';
+
+const cacheItem = (name: string) => ({
+	jsFileMap: { __user_file: `export default () => '${name}';` },
+	userCodeSourceMap: `{"version":3,"sources":["${name}"]}`,
+});
+
+describe('InMemoryLRUCacheItemStore', () => {
+	it('should evict the least recently used entry', async () => {
+		const store = new InMemoryLRUCacheItemStore(2);
+		await store.set('a', cacheItem('a'));
+		await store.set('b', cacheItem('b'));
+		expect(await store.get('a')).toEqual(cacheItem('a'));
+		await store.set('c', cacheItem('c'));
+
+		expect(store.size).toBe(2);
+		expect(await store.get('a')).toEqual(cacheItem('a'));
+		expect(await store.get('b')).toBeUndefined();
+		expect(await store.get('c')).toEqual(cacheItem('c'));
+	});
+
+	it('should reject invalid capacities', () => {
+		expect(() => new InMemoryLRUCacheItemStore(0)).toThrow('maxEntries must be a positive integer, but was: 0');
+	});
+});
+
+describe('FileSystemCacheItemStore', () => {
+	it('should persist entries across store instances', async () => {
+		const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cache-item-store-'));
+		try {
+			const cacheDirectory = path.join(directory, 'nested');
+			await new FileSystemCacheItemStore(cacheDirectory).set('abc123', cacheItem('a'));
+
+			const store = new FileSystemCacheItemStore(cacheDirectory);
+			expect(await store.get('abc123')).toEqual(cacheItem('a'));
+			expect(await store.get('def456')).toBeUndefined();
+			expect(await fs.promises.readdir(cacheDirectory)).toEqual(['abc123.json']);
+		} finally {
+			await fs.promises.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it('should allow concurrent sets of the same key', async () => {
+		const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cache-item-store-'));
+		try {
+			const store = new FileSystemCacheItemStore(directory);
+			for (let round = 0; round < 20; round++) {
+				await Promise.all([store.set('abc123', cacheItem('a')), store.set('abc123', cacheItem('a'))]);
+			}
+
+			expect(await store.get('abc123')).toEqual(cacheItem('a'));
+			expect(await fs.promises.readdir(directory)).toEqual(['abc123.json']);
+		} finally {
+			await fs.promises.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it('should treat corrupt entries as misses', async () => {
+		const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cache-item-store-'));
+		try {
+			await fs.promises.writeFile(path.join(directory, 'abc123.json'), '{"jsFileMap":', 'utf8');
+			expect(await new FileSystemCacheItemStore(directory).get('abc123')).toBeUndefined();
+		} finally {
+			await fs.promises.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it('should reject keys that are not hashes', async () => {
+		await expect(new FileSystemCacheItemStore(os.tmpdir()).get('../escape')).rejects.toThrow(
+			'Invalid cache key: ../escape',
+		);
+	});
+});
@@ -0,0 +1,217 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import ts from 'typescript';
+import { UserCodeLanguageService } from '../src/UserCodeLanguageService';
+
+// The user code with the cursor marker '|' removed, and the offset of the cursor
+const withCursor = (code: string) => ({ code: code.replace('|', ''), offset: code.indexOf('|') });
+
+const libraryFiles = () => [
+	ts.createSourceFile(
+		'goals.ts',
+		`
+/** A goal that recurs at a fixed interval */
+export interface Goal {
+	name: string;
+	interval: number;
+}
+
+/**
+ * Create a goal
+ * @param name Shown in the scheduling results
+ */
+export function goal(name: string, interval?: number): Goal {
+	return { name, interval: interval ?? 1 };
+}
+`,
+		ts.ScriptTarget.ESNext,
+		true,
+	),
+];
+
+describe('UserCodeLanguageService', () => {
+	it('should complete the members of library types', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`
+import { goal } from 'goals';
+export default function() {
+	return goal('a').|
+}
+`);
+		service.update(code, 'Goal', [], libraryFiles());
+
+		const names = service.getCompletions(offset).map(completion => completion.name);
+
+		expect(names).toEqual(['interval', 'name']);
+	});
+
+	it('should complete the exports of library files', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`import { | } from 'goals';`);
+		service.update(code, 'any', [], libraryFiles());
+
+		expect(service.getCompletions(offset)).toContainEqual(expect.objectContaining({ name: 'goal', kind: 'function' }));
+		expect(service.getCompletions(offset)).toContainEqual(expect.objectContaining({ name: 'Goal', kind: 'interface' }));
+	});
+
+	it('should only complete globals of the configured libraries', () => {
+		const service = new UserCodeLanguageService({ compilerOptions: { lib: ['es2020'] } });
+		const { code, offset } = withCursor(`export default function() { return |; }`);
+		service.update(code);
+
+		const names = service.getCompletions(offset).map(completion => completion.name);
+
+		expect(names).toContain('Math');
+		expect(names).not.toContain('document');
+		expect(names).not.toContain('__args');
+	});
+
+	it('should help with the signature of library functions', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`
+import { goal } from 'goals';
+export default function() {
+	return goal('a', |);
+}
+`);
+		service.update(code, 'Goal', [], libraryFiles());
+
+		expect(service.getSignatureHelp(offset)).toEqual({
+			signatures: [
+				{
+					label: 'goal(name: string, interval?: number): Goal',
+					documentation: 'Create a goal',
+					parameters: [
+						{ label: 'name: string', documentation: 'Shown in the scheduling results' },
+						{ label: 'interval?: number', documentation: '' },
+					],
+				},
+			],
+			activeSignature: 0,
+			activeParameter: 1,
+		});
+	});
+
+	it('should show quick info for symbols of user and library files', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`
+import { Goal } from 'goals';
+export default function(): G|oal {
+	return { name: 'a', interval: 1 };
+}
+`);
+		service.update(code, 'Goal', [], libraryFiles());
+
+		expect(service.getQuickInfo(offset)).toEqual({
+			text: '(alias) interface Goal\nimport Goal',
+			documentation: 'A goal that recurs at a fixed interval',
+			start: code.indexOf('Goal {'),
+			length: 4,
+		});
+		expect(service.getQuickInfo(code.indexOf("'a'"))).toBeUndefined();
+	});
+
+	it('should reflect the latest update', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`export default function(plan: { duration: number }) { return plan.|; }`);
+		service.update(`export default function() { return 1; }`, 'number', []);
+		service.update(code, 'number', ['{ duration: number }']);
+
+		expect(service.getCompletions(offset)).toEqual([expect.objectContaining({ name: 'duration', kind: 'property' })]);
+	});
+
+	it('should answer requests about any file of a user code project', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(
+			`export const hours = (n: number) => n * 3600;\nexport const days = (n: number) => hours(|);`,
+		);
+		service.update(
+			{ entry: 'main.ts', files: { 'main.ts': `export { hours } from './time';`, 'time.ts': code } },
+			'any',
+			[],
+		);
+
+		expect(service.getSignatureHelp(offset, 'time.ts')?.signatures[0].label).toBe('hours(n: number): number');
+		expect(() => service.getCompletions(0, 'goals.ts')).toThrow('No user file found: goals.ts');
+	});
+
+	it('should return edits that format a user file', () => {
+		const service = new UserCodeLanguageService({ formatOptions: { convertTabsToSpaces: false } });
+		service.update(`export default function(){\nreturn 1\n}`);
+
+		expect(service.getFormattingEdits()).toEqual([
+			{ fileName: '__user_file', start: 25, length: 0, newText: ' ' },
+			{ fileName: '__user_file', start: 27, length: 0, newText: '\t' },
+		]);
+	});
+
+	it('should return edits that organize the imports of a user file', () => {
+		const service = new UserCodeLanguageService();
+		const code = `import { goal, Goal } from 'goals';\nexport default function(): Goal { return { name: 'a', interval: 1 }; }`;
+		service.update(code, 'Goal', [], libraryFiles());
+
+		expect(service.getOrganizeImportsEdits()).toEqual([
+			{ fileName: '__user_file', start: 0, length: 36, newText: `import { Goal } from 'goals';\n` },
+		]);
+	});
+
+	it('should find definitions in library files', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`
+import { goal } from 'goals';
+export default function() {
+	return go|al('a');
+}
+`);
+		const [goalsFile] = libraryFiles();
+		service.update(code, 'Goal', [], [goalsFile]);
+
+		expect(service.getDefinitions(offset)).toEqual([
+			{ fileName: 'goals.ts', start: goalsFile.text.indexOf('goal('), length: 4, isUserFile: false },
+		]);
+		expect(service.getDefinitions(code.indexOf("'a'"))).toEqual([]);
+	});
+
+	it('should find references across user and library files, but not in the harness', () => {
+		const service = new UserCodeLanguageService();
+		const { code, offset } = withCursor(`
+import { Goal } from 'goals';
+export default function(): Goal {
+	const g|oal: Goal = { name: 'a', interval: 1 };
+	return goal;
+}
+`);
+		const [goalsFile] = libraryFiles();
+		service.update(code, 'Goal', [], [goalsFile]);
+
+		expect(service.getReferences(offset)).toEqual([
+			{ fileName: '__user_file', start: code.indexOf('goal:'), length: 4, isUserFile: true },
+			{ fileName: '__user_file', start: code.indexOf('goal;'), length: 4, isUserFile: true },
+		]);
+		const goalTypeReferences = service.getReferences(code.indexOf('Goal {'));
+		expect(goalTypeReferences).toContainEqual({
+			fileName: 'goals.ts',
+			start: goalsFile.text.indexOf('Goal {'),
+			length: 4,
+			isUserFile: false,
+		});
+		expect(goalTypeReferences.filter(reference => reference.fileName === '__user_file')).toHaveLength(3);
+		// The harness imports the default export, but only the export itself is reported
+		expect(service.getReferences(code.indexOf('default'))).toEqual([
+			{ fileName: '__user_file', start: code.indexOf('default'), length: 7, isUserFile: true },
+		]);
+	});
+
+	it('should answer requests about JavaScript user code', () => {
+		const service = new UserCodeLanguageService({ language: 'javascript' });
+		const { code, offset } = withCursor(`
+/** @param {{ duration: number }} plan */
+export default function(plan) {
+	return plan.|;
+}
+`);
+		service.update(code, 'number', ['{ duration: number }']);
+
+		expect(service.getCompletions(offset)).toContainEqual(expect.objectContaining({ name: 'duration' }));
+	});
+});
@@ -2,7 +2,7 @@
 import './inputs/polyfills';
 import { describe, it, test } from 'node:test';
 import { expect } from 'expect';
-import {UserCodeRunner} from "../src/UserCodeRunner";
+import {applyTextEdits, defineSignature, HostArgumentError, HostCloneError, InMemoryLRUCacheItemStore, InvalidSignatureError, UserCodeCancelledError, UserCodeFix, UserCodePolicyError, UserCodePolicyRule, UserCodeResourceLimitError, UserCodeRunner, UserCodeTimeoutError, UserCodeTypeError} from "../src/UserCodeRunner";
 import {installStringUtils} from "../src/utils/stringUtils";
 installStringUtils();
 
@@ -727,33 +727,32 @@ describe('behavior', () => {
 
     const runner = new UserCodeRunner();
 
-    try {
-      await runner.executeUserCode(
-        userCode,
-        ['hello'],
-        'string',
-        ['string'],
-        1000,
-        [
-          ts.createSourceFile('additionalFile.ts', `
-      export {}
-      throw new Error('This is a test error');
-      `.trimTemplate(), ts.ScriptTarget.ESNext, true),
-        ],
-      );
-    } catch (err: any) {
-      expect(err.message).toBe(`
-      Error: Runtime error detected outside of user code execution path. This is most likely a bug in the additional library source.
-      Inherited from:
-      This is a test error
-      `.trimTemplate());
-      expect(err.stack).toContain(`
-      Error: This is a test error
-          at additionalFile:1:7
-      `.trimTemplate());
-      expect(err.stack).toMatch(/at SourceTextModule.evaluate \(node:internal\/vm\/module:\d+:\d+\)/);
-      expect(err.stack).toMatch(/at UserCodeRunner\.executeUserCodeFromArtifacts \(\S+src\/UserCodeRunner\.ts:\d+:\d+/);
-    }
+    const result = await runner.executeUserCode(
+      userCode,
+      ['hello'],
+      'string',
+      ['string'],
+      1000,
+      [
+        ts.createSourceFile('additionalFile.ts', `
+    export {}
+    throw new Error('This is a test error');
+    `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ],
+    );
+
+    expect(result.unwrapErr().length).toBe(1);
+    expect(result.unwrapErr()[0].message).toBe(`
+    Error: Runtime error detected outside of user code execution path. This is most likely a bug in the additional library source.
+    Inherited from:
+    This is a test error
+    `.trimTemplate());
+    expect(result.unwrapErr()[0].stack).toContain(`
+    Error: This is a test error
+        at additionalFile:1:7
+    `.trimTemplate());
+    expect(result.unwrapErr()[0].stack).toMatch(/at SourceTextModule.evaluate \(node:internal\/vm\/module:\d+:\d+\)/);
+    expect(result.unwrapErr()[0].location).toEqual({ fileName: '__user_file', line: 1, column: 1 });
   });
 
   it('should allow preprocessing of user code and subsequent execution', async () => {
@@ -1058,6 +1057,2294 @@ describe('behavior', () => {
       expect(result2.unwrap()).toBe('hello world');
     });
   });
+
+  describe('compilation cache', () => {
+    it('should reuse library source files and diagnostics across preProcess calls', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        return libraryFunction(thing);
+      }
+      `.trimTemplate();
+      const libraryCode = `
+      declare global {
+        function libraryFunction(thing: string): string;
+      }
+      export function libraryFunction(thing: string): string {
+        return thing + ' world';
+      }
+      Object.assign(globalThis, { libraryFunction });
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result1 = await runner.preProcess(userCode, 'string', ['string'], [
+        ts.createSourceFile('library.ts', libraryCode, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result1.isOk()).toBeTruthy();
+      const statistics1 = runner.getCompilationCacheStatistics();
+      expect(statistics1.sourceFileHits).toBe(0);
+      expect(statistics1.programReuses).toBe(0);
+
+      const result2 = await runner.preProcess(userCode, 'string', ['string'], [
+        ts.createSourceFile('library.ts', libraryCode, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result2.isOk()).toBeTruthy();
+      expect(result2.unwrap()).toEqual(result1.unwrap());
+      const statistics2 = runner.getCompilationCacheStatistics();
+      expect(statistics2.sourceFileHits).toBe(statistics1.sourceFileMisses);
+      expect(statistics2.sourceFileMisses).toBe(statistics1.sourceFileMisses);
+      expect(statistics2.diagnosticHits).toBe(statistics1.diagnosticMisses - 2);
+      expect(statistics2.programReuses).toBe(1);
+
+      const result3 = await runner.executeUserCodeFromArtifacts(
+        result2.unwrap().jsFileMap,
+        result2.unwrap().userCodeSourceMap,
+        ['hello'],
+      );
+      expect(result3.unwrap()).toBe('hello world');
+    });
+
+    it('should not reuse library source files whose contents changed', async () => {
+      const userCode = `
+      import { libraryValue } from 'library';
+      export default function MyDSLFunction(): number {
+        return libraryValue;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result1 = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('library.ts', `export const libraryValue: number = 1;`, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result1.isOk()).toBeTruthy();
+      const misses = runner.getCompilationCacheStatistics().sourceFileMisses;
+
+      const result2 = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('library.ts', `export const libraryValue: string = '1';`, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result2.isErr()).toBeTruthy();
+      expect(result2.unwrapErr()[0].message).toBe(`
+      TypeError: TS2322 Type 'string' is not assignable to type 'number'.
+      `.trimTemplate());
+      expect(runner.getCompilationCacheStatistics().sourceFileMisses).toBe(misses + 1);
+
+      runner.clearCompilationCache();
+      expect(runner.getCompilationCacheStatistics()).toEqual({
+        sourceFileHits: 0,
+        sourceFileMisses: 0,
+        diagnosticHits: 0,
+        diagnosticMisses: 0,
+        programReuses: 0,
+      });
+    });
+
+    it('should not reuse diagnostics of library source files whose dependencies changed', async () => {
+      const userCode = `
+      import { y } from 'A';
+      export default function MyDSLFunction(): number {
+        return y;
+      }
+      `.trimTemplate();
+      const libraryA = `import { x } from './B'; export const y: number = x;`;
+
+      const runner = new UserCodeRunner();
+
+      const result1 = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('A.ts', libraryA, ts.ScriptTarget.ESNext, true),
+        ts.createSourceFile('B.ts', `export const x = 1;`, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result1.isOk()).toBeTruthy();
+
+      const result2 = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('A.ts', libraryA, ts.ScriptTarget.ESNext, true),
+        ts.createSourceFile('B.ts', `export const x = "s";`, ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(result2.isErr()).toBeTruthy();
+      expect(result2.unwrapErr()[0].message).toBe(`
+      TypeError: TS2322 Type 'string' is not assignable to type 'number'.
+      `.trimTemplate());
+    });
+  });
+
+  describe('artifact cache', () => {
+    it('should look up preprocessed user code in the cache item store', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const cacheItemStore = new InMemoryLRUCacheItemStore();
+      const runner = new UserCodeRunner({ cacheItemStore });
+
+      const result1 = await runner.preProcessCached(userCode, 'string', ['string']);
+      expect(result1.isOk()).toBeTruthy();
+      expect(cacheItemStore.size).toBe(1);
+
+      const result2 = await new UserCodeRunner({ cacheItemStore }).preProcessCached(userCode, 'string', ['string']);
+      expect(result2.unwrap()).toBe(result1.unwrap());
+
+      const result3 = await runner.preProcessCached(userCode, 'any', ['string']);
+      expect(result3.isOk()).toBeTruthy();
+      expect(cacheItemStore.size).toBe(2);
+
+      const result4 = await runner.executeUserCodeFromArtifacts(
+        result2.unwrap().jsFileMap,
+        result2.unwrap().userCodeSourceMap,
+        ['hello'],
+      );
+      expect(result4.unwrap()).toBe('hello world');
+    });
+
+    it('should not cache user code with errors', async () => {
+      const cacheItemStore = new InMemoryLRUCacheItemStore();
+      const runner = new UserCodeRunner({ cacheItemStore });
+
+      const result = await runner.preProcessCached(`export default function MyDSLFunction(): string { return 1; }`, 'string', []);
+      expect(result.isErr()).toBeTruthy();
+      expect(cacheItemStore.size).toBe(0);
+    });
+
+    it('should not share cached user code between runners with different policies', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): number {
+        debugger;
+        return 1;
+      }
+      `.trimTemplate();
+
+      const cacheItemStore = new InMemoryLRUCacheItemStore();
+      const permissiveRunner = new UserCodeRunner({ cacheItemStore, policy: { rules: { 'no-debugger': false } } });
+      const strictRunner = new UserCodeRunner({ cacheItemStore });
+
+      const result1 = await permissiveRunner.preProcessCached(userCode, 'number', []);
+      expect(result1.isOk()).toBeTruthy();
+
+      const result2 = await strictRunner.preProcessCached(userCode, 'number', []);
+      expect(result2.unwrapErr().map(error => error.message)).toEqual([
+        'PolicyError: Debugger statements are not allowed. (no-debugger)',
+      ]);
+    });
+
+    it('should key the cache on the versions of custom policy rules', () => {
+      const key = (version: string) => UserCodeRunner.createCacheKey('', 'any', [], [], undefined, undefined, undefined, [
+        { id: 'no-console', version, check: () => undefined },
+      ]);
+
+      expect(key('1')).toBe(key('1'));
+      expect(key('1')).not.toBe(key('2'));
+    });
+
+    it('should key the cache on the additional source file contents', () => {
+      const key = (text: string) => UserCodeRunner.createCacheKey('', 'any', [], [
+        ts.createSourceFile('library.ts', text, ts.ScriptTarget.ESNext),
+      ]);
+
+      expect(key('export const a = 1;')).toBe(key('export const a = 1;'));
+      expect(key('export const a = 1;')).not.toBe(key('export const a = 2;'));
+      expect(key('export const a = 1;')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('compiler options', () => {
+    it('should not apply strict checks by default', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing) {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, ['hello'], 'string', ['string']);
+
+      expect(result.unwrap()).toBe('hello world');
+    });
+
+    it('should apply configured strictness to user code', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing, things: string[]): string {
+        const first: string = things[0];
+        return thing + first;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({
+        compilerOptions: {
+          strict: true,
+          noUncheckedIndexedAccess: true,
+        },
+      });
+
+      const result = await runner.executeUserCode(userCode, ['hello', []], 'string', ['string', 'string[]']);
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(2);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS7006 Parameter 'thing' implicitly has an 'any' type.
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 1,
+        column: 39,
+      });
+      expect(result.unwrapErr()[1].message).toBe(`
+      TypeError: TS2322 Type 'string | undefined' is not assignable to type 'string'.
+        Type 'undefined' is not assignable to type 'string'.
+      `.trimTemplate());
+      expect(result.unwrapErr()[1].location).toMatchObject({
+        line: 2,
+        column: 9,
+      });
+    });
+
+    it('should apply the configured libraries', async () => {
+      const userCode = `
+      export default function MyDSLFunction(things: number[]): number | undefined {
+        return things.findLast(thing => thing > 1);
+      }
+      `.trimTemplate();
+
+      const es2022Runner = new UserCodeRunner({ compilerOptions: { lib: ['es2022'] } });
+      const es2022Result = await es2022Runner.preProcess(userCode, 'number | undefined', ['number[]']);
+      expect(es2022Result.isErr()).toBeTruthy();
+      expect(es2022Result.unwrapErr()[0].message).toMatch(/^TypeError: TS2550 Property 'findLast' does not exist on type 'number\[]'/);
+
+      const esnextRunner = new UserCodeRunner({ compilerOptions: { lib: ['esnext'] } });
+      const esnextResult = await esnextRunner.executeUserCode(userCode, [[1, 2, 3, 1]], 'number | undefined', ['number[]']);
+      expect(esnextResult.unwrap()).toBe(3);
+    });
+
+    it('should reject compiler options outside the allowlist', () => {
+      expect(() => new UserCodeRunner({ compilerOptions: { module: 'commonjs' } as any })).toThrow(
+        'Unsupported compiler options: module. Supported compiler options are: strict, noImplicitAny, noUncheckedIndexedAccess, exactOptionalPropertyTypes, lib',
+      );
+      expect(() => new UserCodeRunner({ compilerOptions: { lib: ['es1999'] } })).toThrow(
+        /^Invalid compiler options: Argument for '--lib' option must be/,
+      );
+    });
+
+    it('should key the artifact cache on the compiler options', async () => {
+      const cacheItemStore = new InMemoryLRUCacheItemStore();
+      const userCode = `export default function MyDSLFunction(thing) { return thing; }`;
+
+      const looseResult = await new UserCodeRunner({ cacheItemStore }).preProcessCached(userCode, 'string', ['string']);
+      expect(looseResult.isOk()).toBeTruthy();
+
+      const strictResult = await new UserCodeRunner({ cacheItemStore, compilerOptions: { noImplicitAny: true } })
+        .preProcessCached(userCode, 'string', ['string']);
+      expect(strictResult.isErr()).toBeTruthy();
+    });
+  });
+
+  describe('multi-file projects', () => {
+    it('should link user files that import each other', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeProject(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            import { greet } from './helpers/greet';
+            export default function MyDSLFunction(thing: string): string {
+              return greet(thing);
+            }
+            `.trimTemplate(),
+            'helpers/greet.ts': `
+            import { suffix } from '../constants';
+            export function greet(thing: string): string {
+              return thing + suffix;
+            }
+            `.trimTemplate(),
+            'constants.ts': `
+            export const suffix = ' world';
+            `.trimTemplate(),
+          },
+        },
+        ['hello'],
+        'string',
+        ['string'],
+      );
+
+      expect(result.unwrap()).toBe('hello world');
+    });
+
+    it('should report type errors with the user file name', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessProject(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            import { count } from './helpers/count';
+            export default function MyDSLFunction(): number {
+              return count();
+            }
+            `.trimTemplate(),
+            'helpers/count.ts': `
+            export function count(): number {
+              const result: number = 'one';
+              return result;
+            }
+            `.trimTemplate(),
+          },
+        },
+        'number',
+        [],
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2322 Type 'string' is not assignable to type 'number'.
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].stack).toBe(`
+      at count(helpers/count.ts:2:9)
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'helpers/count.ts',
+        line: 2,
+        column: 9,
+      });
+    });
+
+    it('should report execution harness errors in the file declaring the default export', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessProject(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            export { default } from './goals/myGoal';
+            `.trimTemplate(),
+            'goals/myGoal.ts': `
+            // A goal
+            export default function myGoal(): string {
+              return 'goal';
+            }
+            `.trimTemplate(),
+          },
+        },
+        'number',
+        [],
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2322 Incorrect return type. Expected: 'number | Promise<number>', Actual: 'string'.
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].stack).toBe(`
+      at myGoal(goals/myGoal.ts:2:35)
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'goals/myGoal.ts',
+        line: 2,
+        column: 35,
+      });
+    });
+
+    it('should report runtime errors with the user file name', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeProject(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            import { fail } from './helpers/fail';
+            export default function MyDSLFunction(): void {
+              fail();
+            }
+            `.trimTemplate(),
+            'helpers/fail.ts': `
+            export function fail(): void {
+              throw new Error('This is a test error');
+            }
+            `.trimTemplate(),
+          },
+        },
+        [],
+        'void',
+        [],
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe('Error: This is a test error');
+      expect(result.unwrapErr()[0].stack).toBe(`
+      at fail(helpers/fail.ts:2:8)
+      at MyDSLFunction(main.ts:3:2)
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'helpers/fail.ts',
+        line: 2,
+        column: 8,
+      });
+    });
+
+    it('should report imports of missing user files', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessProject(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            import { missing } from './helpers/missing';
+            export default function MyDSLFunction(): number {
+              return missing;
+            }
+            `.trimTemplate(),
+          },
+        },
+        'number',
+        [],
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0].message).toBe(`TypeError: TS2792 Cannot find module './helpers/missing'.`);
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'main.ts',
+        line: 1,
+        column: 25,
+      });
+    });
+
+    it('should reject invalid projects', async () => {
+      const runner = new UserCodeRunner();
+
+      await expect(runner.preProcessProject({ entry: 'main.ts', files: { 'other.ts': '' } })).rejects.toThrow(
+        'Entry file not found in project: main.ts',
+      );
+      await expect(runner.preProcessProject({ entry: 'main.ts', files: { 'main.ts': '', '../escape.ts': '' } })).rejects.toThrow(
+        'User file names must be relative to the project root: ../escape.ts',
+      );
+      await expect(runner.preProcessProject({ entry: 'main.ts', files: { 'main.ts': '', 'main.js': '' } })).rejects.toThrow(
+        'User file names must end in .ts: main.js',
+      );
+    });
+  });
+
+  describe('module resolution', () => {
+    it('should resolve library files by path, bare specifier and subpath', async () => {
+      const userCode = `
+      import { constraint } from 'aerie/constraints';
+      import { windows } from 'aerie/constraints/windows';
+      import { goal } from 'scheduler/index';
+      export default function MyDSLFunction(): string {
+        return [constraint(), windows(), goal()].join(',');
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({
+        moduleMap: {
+          'aerie/constraints': 'constraints/index.ts',
+          'aerie/constraints/*': 'constraints/*.ts',
+        },
+      });
+
+      const result = await runner.executeUserCode(
+        userCode,
+        [],
+        'string',
+        [],
+        1000,
+        [
+          ts.createSourceFile('constraints/index.ts', `
+          import { name } from '../shared/name';
+          export function constraint(): string { return name('constraint'); }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+          ts.createSourceFile('constraints/windows.ts', `
+          export function windows(): string { return 'windows'; }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+          ts.createSourceFile('scheduler/index.ts', `
+          import { name } from 'shared/name';
+          export function goal(): string { return name('goal'); }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+          ts.createSourceFile('shared/name.ts', `
+          export function name(thing: string): string { return thing + '!'; }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ],
+      );
+
+      expect(result.unwrap()).toBe('constraint!,windows,goal!');
+    });
+
+    it('should report bare specifiers missing from the module map', async () => {
+      const userCode = `
+      import { constraint } from 'aerie/constraints';
+      export default function MyDSLFunction(): string {
+        return constraint();
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(
+        userCode,
+        'string',
+        [],
+        [
+          ts.createSourceFile('constraints/index.ts', `
+          export function constraint(): string { return 'constraint'; }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ],
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0].message).toBe(`TypeError: TS2792 Cannot find module 'aerie/constraints'.`);
+    });
+
+    it('should run library files with absolute names', async () => {
+      const userCode = `
+      import { goal } from '/abs/dir/lib';
+      export default function MyDSLFunction(): string {
+        return goal() + ',' + (globalThis as any).registered;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(
+        userCode,
+        [],
+        'string',
+        [],
+        1000,
+        [
+          ts.createSourceFile('/abs/dir/lib.ts', `
+          export function goal(): string { return 'goal'; }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+          ts.createSourceFile('/abs/dir/register.ts', `
+          (globalThis as any).registered = 'registered';
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ],
+      );
+
+      expect(result.unwrap()).toBe('goal,registered');
+    });
+  });
+
+  describe('named export entrypoints', () => {
+    it('should call the named export', async () => {
+      const userCode = `
+      export function goal(thing: string): string {
+        return thing + ' goal';
+      }
+      export default function MyDSLFunction(thing: string): string {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(
+        userCode,
+        ['hello'],
+        'string',
+        ['string'],
+        undefined,
+        undefined,
+        undefined,
+        'goal',
+      );
+
+      expect(result.unwrap()).toBe('hello goal');
+    });
+
+    it('should handle missing named export errors', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, 'string', ['string'], [], 'goal');
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2614 No export named 'goal'. Expected an exported function named 'goal' with the signature: "(...args: [string]) => string | Promise<string>".
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 1,
+        column: 1,
+      });
+    });
+
+    it('should handle named export not function errors', async () => {
+      const userCode = `
+      export const goal = 'hello';
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, 'string', ['string'], [], 'goal');
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2349 Export 'goal' is not a valid function. Expected an exported function named 'goal' with the signature: "(...args: [string]) => string | Promise<string>".
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 1,
+        column: 14,
+      });
+    });
+
+    it('should produce return type errors for the named export', async () => {
+      const userCode = `
+      export function goal(thing: string): number {
+        return 1;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, 'string', ['string'], [], 'goal');
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2322 Incorrect return type. Expected: 'string | Promise<string>', Actual: 'number'.
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].stack).toBe(`
+      at goal(1:38)
+      `.trimTemplate());
+    });
+
+    it('should reject export names that are not identifiers', async () => {
+      const runner = new UserCodeRunner();
+
+      await expect(runner.preProcess('', 'string', [], [], 'not-an-identifier')).rejects.toThrow(
+        'Invalid export name: not-an-identifier',
+      );
+    });
+  });
+
+  describe('export contracts', () => {
+    const userCode = `
+    export function expandOpen(valve: string): string[] {
+      return ['OPEN ' + valve];
+    }
+    export async function expandClose(valve: string, delay: number): Promise<string[]> {
+      return ['WAIT ' + delay, 'CLOSE ' + valve];
+    }
+    export default function describe(): string {
+      return 'valves';
+    }
+    `.trimTemplate();
+
+    it('should execute any export of the contract from one artifact', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessExports(userCode, {
+        expandOpen: { outputType: 'string[]', argsTypes: ['string'] },
+        expandClose: { outputType: 'string[]', argsTypes: ['string', 'number'] },
+        default: { outputType: 'string', argsTypes: [] },
+      });
+      expect(result.isOk()).toBeTruthy();
+      const { jsFileMap, userCodeSourceMap } = result.unwrap();
+
+      const openResult = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, ['A'], undefined, undefined, 'expandOpen');
+      expect(openResult.unwrap()).toEqual(['OPEN A']);
+
+      const closeResult = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, ['B', 5], undefined, undefined, 'expandClose');
+      expect(closeResult.unwrap()).toEqual(['WAIT 5', 'CLOSE B']);
+
+      const defaultResult = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, [], undefined, undefined, 'default');
+      expect(defaultResult.unwrap()).toBe('valves');
+    });
+
+    it('should report signature errors for each export of the contract', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessExports(userCode, {
+        expandOpen: { outputType: 'number', argsTypes: ['string'] },
+        expandClose: { outputType: 'string[]', argsTypes: ['number', 'number'] },
+        expandMissing: { outputType: 'string[]', argsTypes: [] },
+      });
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `TypeError: TS2345 Incorrect argument type. Expected: '[number, number]', Actual: '[string, number]'.`,
+        `TypeError: TS2614 No export named 'expandMissing'. Expected an exported function named 'expandMissing' with the signature: "(...args: []) => string[] | Promise<string[]>".`,
+        `TypeError: TS2322 Incorrect return type. Expected: 'number | Promise<number>', Actual: 'string[]'.`,
+      ]);
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 4,
+        column: 35,
+      });
+    });
+
+    it('should require an export name for artifacts of a contract', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessExports(userCode, {
+        expandOpen: { outputType: 'string[]', argsTypes: ['string'] },
+      });
+      const { jsFileMap, userCodeSourceMap } = result.unwrap();
+
+      await expect(runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, ['A'])).rejects.toThrow(
+        'No execution harness found, artifacts from preProcessExports require an export name',
+      );
+      await expect(
+        runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, ['A'], undefined, undefined, 'expandClose'),
+      ).rejects.toThrow('No execution harness found for export: expandClose');
+    });
+  });
+
+  describe('signature descriptors', () => {
+    const openValve = defineSignature<[valve: string, count: number], { stem: string; args: string[] }[]>({
+      parameters: [
+        { name: 'valve', type: 'string' },
+        { name: 'count', type: 'number' },
+      ],
+      returnType: 'Command[]',
+      typeImports: [{ name: 'Command', from: 'valves/index' }],
+    });
+
+    it('should execute user code against a signature descriptor', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      import type { Command } from 'valves/index';
+      export default function(valve: string, count: number): Command[] {
+        return Array.from({ length: count }, () => ({ stem: 'OPEN', args: [valve] }));
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeWithSignature(userCode, openValve, ['A', 2], 1000, [
+        ts.createSourceFile('valves/index.ts', `
+        export interface Command {
+          stem: string;
+          args: string[];
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap()).toEqual([
+        { stem: 'OPEN', args: ['A'] },
+        { stem: 'OPEN', args: ['A'] },
+      ]);
+    });
+
+    it('should name the declared parameters in argument type errors', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(valve: number): [] {
+        return [];
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcessWithSignature(userCode, openValve, [
+        ts.createSourceFile('valves/index.ts', `
+        export interface Command {
+          stem: string;
+          args: string[];
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `TypeError: TS2554 Incorrect argument type. Expected: '[valve: string, count: number]', Actual: '[number]'.`,
+      ]);
+    });
+
+    it('should reject malformed signatures up front', async () => {
+      expect(() =>
+        defineSignature({
+          parameters: [
+            { name: 'valve', type: 'string]; declare const x: [number' },
+            { name: 'valve', type: 'string', optional: true },
+            { name: 'count', type: 'number' },
+          ],
+          returnType: '',
+        }),
+      ).toThrow(InvalidSignatureError);
+
+      expect(() =>
+        defineSignature({ parameters: [{ name: 'a b', type: 'string' }], returnType: 'number' }),
+      ).toThrow(`Parameter name 'a b' is not a valid identifier.`);
+    });
+
+    it('should reject signatures that refer to unknown types', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): string {
+        return '';
+      }
+      `.trimTemplate();
+
+      await expect(
+        runner.preProcessWithSignature(userCode, { parameters: [], returnType: 'Strng' }),
+      ).rejects.toThrow(`Export 'default': Cannot find name 'Strng'.`);
+      await expect(runner.preProcess(userCode, 'Strng', [])).rejects.toThrow(InvalidSignatureError);
+    });
+
+    it('should accept signature descriptors in export contracts', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export function open(valve: string, count: number) {
+        return [{ stem: 'OPEN', args: [valve, String(count)] }];
+      }
+      export function close(): string {
+        return 'CLOSE';
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcessExports(
+        userCode,
+        { open: openValve, close: { outputType: 'string', argsTypes: [] } },
+        [
+          ts.createSourceFile('valves/index.ts', `
+          export interface Command {
+            stem: string;
+            args: string[];
+          }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ],
+      );
+      const { jsFileMap, userCodeSourceMap } = result.unwrap();
+
+      const openResult = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, ['B', 1], undefined, undefined, 'open');
+      expect(openResult.unwrap()).toEqual([{ stem: 'OPEN', args: ['B', '1'] }]);
+    });
+  });
+
+  describe('javascript user code', () => {
+    it('should type check and execute javascript user code', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+      const userCode = `
+      import { double } from './lib';
+      /** @param {number} x */
+      export default function(x) {
+        return double(x);
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [3], 'number', ['number'], 1000, [
+        ts.createSourceFile('lib.ts', `
+        export function double(x: number): number {
+          return x * 2;
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap()).toBe(6);
+    });
+
+    it('should report signature mismatches from JSDoc annotations', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+      const userCode = `
+      /**
+       * @param {string} x
+       * @returns {string}
+       */
+      export default function(x) {
+        return x;
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', ['number'], [
+        ts.createSourceFile('lib.ts', `
+        export function double(x: number): number {
+          return x * 2;
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `TypeError: TS2322 Incorrect return type. Expected: 'number | Promise<number>', Actual: 'string'.`,
+        `TypeError: TS2345 Incorrect argument type. Expected: '[number]', Actual: '[string]'.`,
+      ]);
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 3,
+        column: 14,
+      });
+    });
+
+    it('should type check calls into library code', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+      const userCode = `
+      export default function() {
+        return double('2');
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('lib.ts', `
+        export function double(x: number): number {
+          return x * 2;
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ts.createSourceFile('globals.d.ts', `
+        declare global {
+          function double(x: number): number;
+        }
+        export {};
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `TypeError: TS2345 Argument of type 'string' is not assignable to parameter of type 'number'.`,
+      ]);
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 2,
+        column: 17,
+      });
+    });
+
+    it('should map runtime errors in javascript projects to the original files', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+
+      const result = await runner.executeUserCodeProject(
+        {
+          entry: 'main.js',
+          files: {
+            'main.js': `
+            import { fail } from './util.js';
+            export default function() {
+              return fail();
+            }
+            `.trimTemplate(),
+            'util.js': `
+            /** @returns {number} */
+            export function fail() {
+              throw new Error('boom');
+            }
+            `.trimTemplate(),
+          },
+        },
+        [],
+        'number',
+        [],
+        1000,
+        [
+          ts.createSourceFile('lib.ts', `
+          export function double(x: number): number {
+            return x * 2;
+          }
+          `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ],
+      );
+
+      expect(result.unwrapErr()[0].message).toBe('Error: boom');
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'util.js',
+        line: 3,
+        column: 8,
+      });
+    });
+
+    it('should require .js files in javascript projects', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+
+      await expect(
+        runner.preProcessProject({ entry: 'main.ts', files: { 'main.ts': 'export default function() {}' } }),
+      ).rejects.toThrow('User file names must end in .js: main.ts');
+    });
+  });
+
+  describe('transpile only', () => {
+    it('should execute user code without type checking it', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      import { double } from './lib';
+      export default function(x: number): string {
+        return double(x) as any;
+      }
+      `.trimTemplate();
+
+      const preProcessResult = await runner.preProcessTranspileOnly(userCode, [
+        ts.createSourceFile('lib.ts', `
+        export function double(x: number): number {
+          return x * 2;
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+      expect(preProcessResult.unwrap().typeChecked).toBe(false);
+      expect(runner.getCompilationCacheStatistics().diagnosticMisses).toBe(0);
+
+      const { jsFileMap, userCodeSourceMap } = preProcessResult.unwrap();
+      const result = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, [4]);
+      expect(result.unwrap()).toBe(8);
+    });
+
+    it('should flag type checked artifacts', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(`export default function() {}`, 'void', []);
+
+      expect(result.unwrap().typeChecked).toBe(true);
+    });
+
+    it('should not report type errors', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): number {
+        const x: number = 'not a number';
+        return x;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeTranspileOnly(userCode, []);
+
+      expect(result.unwrap()).toBe('not a number');
+    });
+
+    it('should report syntax errors', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function() {
+        return 1 +;
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcessTranspileOnly(userCode);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([`TypeError: TS1109 Expression expected.`]);
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 2,
+        column: 13,
+      });
+    });
+
+    it('should source map runtime errors', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeTranspileOnly(
+        {
+          entry: 'main.ts',
+          files: {
+            'main.ts': `
+            import { fail } from './util.js';
+            export default function(): number {
+              return fail();
+            }
+            `.trimTemplate(),
+            'util.ts': `
+            export function fail(): number {
+              const message: string = 'boom';
+              throw new Error(message);
+            }
+            `.trimTemplate(),
+          },
+        },
+        [],
+      );
+
+      expect(result.unwrapErr()[0].message).toBe('Error: boom');
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        fileName: 'util.ts',
+        line: 3,
+        column: 8,
+      });
+    });
+
+    it('should call the requested named export', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+      const userCode = `
+      export function goal(count) {
+        return count + 1;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeTranspileOnly(userCode, [1], 1000, [], undefined, 'goal');
+
+      expect(result.unwrap()).toBe(2);
+    });
+  });
+
+  describe('transformers', () => {
+    const upperCaseStrings: ts.TransformerFactory<ts.SourceFile> = context => sourceFile => {
+      const visit = (node: ts.Node): ts.Node =>
+        ts.isStringLiteral(node) && !ts.isImportDeclaration(node.parent)
+          ? context.factory.createStringLiteral(node.text.toUpperCase())
+          : ts.visitEachChild(node, visit, context);
+      return ts.visitNode(sourceFile, visit) as ts.SourceFile;
+    };
+
+    const markTransformed: ts.TransformerFactory<ts.SourceFile> = context => sourceFile => {
+      const { factory } = context;
+      const marker = factory.createExpressionStatement(
+        factory.createAssignment(
+          factory.createPropertyAccessExpression(factory.createIdentifier('globalThis'), '__transformed'),
+          factory.createTrue(),
+        ),
+      );
+      return factory.updateSourceFile(sourceFile, [marker, marker, ...sourceFile.statements]);
+    };
+
+    const userCode = `
+    import { greeting } from './lib';
+    export default function(): string {
+      return 'hello, ' + greeting();
+    }
+    `.trimTemplate();
+
+    it('should apply before and after transformers to user code only', async () => {
+      const runner = new UserCodeRunner({ transformers: { before: [upperCaseStrings], after: [markTransformed] } });
+      const context = vm.createContext();
+
+      const result = await runner.executeUserCode(userCode, [], 'string', [], 1000, [
+        ts.createSourceFile('lib.ts', `
+        export function greeting(): string {
+          return 'hello from lib';
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ], context);
+
+      expect(result.unwrap()).toBe('HELLO, hello from lib');
+      expect(context.__transformed).toBe(true);
+    });
+
+    it('should apply transformers to additional source files when asked to', async () => {
+      const runner = new UserCodeRunner({
+        transformers: { before: [upperCaseStrings], includeAdditionalSourceFiles: true },
+      });
+
+      const result = await runner.executeUserCode(userCode, [], 'string', [], 1000, [
+        ts.createSourceFile('lib.ts', `
+        export function greeting(): string {
+          return 'hello from lib';
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap()).toBe('HELLO, HELLO FROM LIB');
+    });
+
+    it('should apply transformers when transpiling only', async () => {
+      const runner = new UserCodeRunner({ transformers: { before: [upperCaseStrings] } });
+
+      const result = await runner.executeUserCodeTranspileOnly(userCode, [], 1000, [
+        ts.createSourceFile('lib.ts', `
+        export function greeting(): string {
+          return 'hello from lib';
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap()).toBe('HELLO, hello from lib');
+    });
+
+    it('should keep runtime errors mapped to the original source', async () => {
+      const runner = new UserCodeRunner({ transformers: { after: [markTransformed] } });
+
+      const result = await runner.executeUserCode(
+        `
+        export default function(): string {
+          const message = 'boom';
+          throw new Error(message);
+        }
+        `.trimTemplate(),
+        [],
+        'string',
+        [],
+      );
+
+      expect(result.unwrapErr()[0].message).toBe('Error: boom');
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 3,
+        column: 8,
+      });
+    });
+  });
+
+  describe('policy', () => {
+    it('should report forbidden constructs with their rule ids', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function policyBreaker(code: string): number {
+        eval(code);
+        const f = new Function('return 1');
+        debugger;
+        const leak = (() => {}).constructor['constructor'];
+        while (true) {
+          f();
+        }
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', ['string']);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        'PolicyError: Calls to eval are not allowed. (no-eval)',
+        'PolicyError: Creating functions from strings with the Function constructor is not allowed. (no-function-constructor)',
+        'PolicyError: Debugger statements are not allowed. (no-debugger)',
+        'PolicyError: Accessing the constructor of a constructor is not allowed. (no-constructor-constructor)',
+        'PolicyError: Loops without a condition must contain a break, return or throw. (no-infinite-loop)',
+      ]);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({
+        ruleId: 'no-eval',
+        stack: 'at policyBreaker(2:3)',
+        location: {
+          fileName: '__user_file',
+          line: 2,
+          column: 3,
+        },
+      });
+    });
+
+    it('should report references to eval and the Function constructor that are not calls', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): number {
+        const e = eval;
+        const F = Function;
+        return e('1+1') + new F('return 1')();
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', []);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        'PolicyError: References to eval are not allowed. (no-eval)',
+        'PolicyError: References to the Function constructor are not allowed. (no-function-constructor)',
+      ]);
+      expect(result.unwrapErr()[0].location).toMatchObject({ line: 2, column: 13 });
+    });
+
+    it('should allow locals and types named like forbidden globals', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): number {
+        const Function = (n: number) => n + 1;
+        const callbacks: { eval: () => number; create: typeof Function }[] = [{ eval: () => 1, create: Function }];
+        const typed: globalThis.Function = () => 1;
+        return callbacks[0].eval() + callbacks[0].create(1) + Function(typed.length);
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', []);
+
+      expect(result.unwrap()).toBe(4);
+    });
+
+    it('should allow loops without a condition that can be left', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): number {
+        let i = 0;
+        for (;;) {
+          for (const j of [1, 2]) {
+            if (j === 2) break;
+          }
+          if (i++ > 3) break;
+        }
+        return i;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', []);
+
+      expect(result.unwrap()).toBe(5);
+    });
+
+    it('should report with statements in javascript user code', async () => {
+      const runner = new UserCodeRunner({ language: 'javascript' });
+      const userCode = `
+      export default function() {
+        with (Math) {
+          return PI;
+        }
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'any', []);
+
+      expect(result.unwrapErr().map(error => error.message)).toContain('PolicyError: With statements are not allowed. (no-with)');
+    });
+
+    it('should check the policy when transpiling only', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcessTranspileOnly(`export default function() { return globalThis.eval('1'); }`);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        'PolicyError: Calls to eval are not allowed. (no-eval)',
+      ]);
+    });
+
+    it('should allow configuring rules per runner', async () => {
+      const noConsole: UserCodePolicyRule = {
+        id: 'no-console',
+        check: node =>
+          ts.isIdentifier(node) && node.text === 'console' ? 'The console is not available.' : undefined,
+      };
+      const runner = new UserCodeRunner({ policy: { rules: { 'no-debugger': false }, customRules: [noConsole] } });
+      const userCode = `
+      export default function() {
+        debugger;
+        console.log('hi');
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'void', [], [
+        ts.createSourceFile('console.d.ts', `declare const console: { log(message: string): void };`, ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        'PolicyError: The console is not available. (no-console)',
+      ]);
+      expect(() => new UserCodeRunner({ policy: { rules: { 'no-such-rule': false } } })).toThrow(
+        'Unknown policy rules: no-such-rule.',
+      );
+    });
+  });
+
+  describe('warnings', () => {
+    const userCode = `
+    export default function(unusedArgument: number): number {
+      const unusedLocal = 1;
+      return 2;
+      throw new Error('never');
+    }
+    `.trimTemplate();
+
+    it('should return non-fatal diagnostics as warnings', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, 'number', ['number']);
+
+      expect(result.unwrap().warnings).toEqual([
+        {
+          severity: 'suggestion',
+          message: `TS6133 'unusedArgument' is declared but its value is never read.`,
+          stack: 'at (1:25)',
+          location: { fileName: '__user_file', line: 1, column: 25 },
+        },
+        {
+          severity: 'suggestion',
+          message: `TS6133 'unusedLocal' is declared but its value is never read.`,
+          stack: 'at (2:9)',
+          location: { fileName: '__user_file', line: 2, column: 9 },
+        },
+        {
+          severity: 'warning',
+          message: 'TS7027 Unreachable code detected.',
+          stack: 'at (4:3)',
+          location: { fileName: '__user_file', line: 4, column: 3 },
+        },
+      ]);
+    });
+
+    it('should return the warnings alongside the value of executed user code', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeWithWarnings(userCode, [1], 'number', ['number']);
+
+      const { value, warnings } = result.unwrap();
+      expect(value).toBe(2);
+      expect(warnings.map(warning => warning.severity)).toEqual(['suggestion', 'suggestion', 'warning']);
+    });
+
+    it('should not warn about library files', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(`export default function(): number { return 1; }`, 'number', [], [
+        ts.createSourceFile('lib.ts', `const unusedInLibrary = 1; export {};`, ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap().warnings).toEqual([]);
+    });
+
+    it('should still report errors when there are warnings', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, 'string', ['number']);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `TypeError: TS2322 Incorrect return type. Expected: 'string | Promise<string>', Actual: 'number'.`,
+      ]);
+    });
+  });
+
+  describe('deprecation warnings', () => {
+    it('should warn about references to deprecated library symbols', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      import { Goal, DEFAULT_INTERVAL } from './goals';
+      export default function(): Goal[] {
+        return [
+          Goal.ActivityRecurrenceGoal(DEFAULT_INTERVAL),
+          Goal.recurrence(5),
+          Goal.every(),
+          Goal.every(5),
+        ];
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'unknown[]', [], [
+        ts.createSourceFile('goals.ts', `
+        export class Goal {
+          /** @deprecated Use Goal.recurrence instead. */
+          public static ActivityRecurrenceGoal(interval: number): Goal {
+            return new Goal();
+          }
+          public static recurrence(interval: number): Goal {
+            return new Goal();
+          }
+          /** @deprecated Pass an interval. */
+          public static every(): Goal;
+          public static every(interval: number): Goal;
+          public static every(interval?: number): Goal {
+            return new Goal();
+          }
+        }
+        /** @deprecated */
+        export const DEFAULT_INTERVAL = 10;
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap().warnings).toEqual([
+        {
+          severity: 'warning',
+          message: `TS6385 'ActivityRecurrenceGoal' is deprecated. Use Goal.recurrence instead.`,
+          stack: 'at (4:10)',
+          location: { fileName: '__user_file', line: 4, column: 10 },
+        },
+        {
+          severity: 'warning',
+          message: `TS6385 'DEFAULT_INTERVAL' is deprecated.`,
+          stack: 'at (4:33)',
+          location: { fileName: '__user_file', line: 4, column: 33 },
+        },
+        {
+          severity: 'warning',
+          message: `TS6385 'every' is deprecated. Pass an interval.`,
+          stack: 'at (6:10)',
+          location: { fileName: '__user_file', line: 6, column: 10 },
+        },
+      ]);
+    });
+
+    it('should warn about constructing deprecated classes with a constructor', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      import { Old } from 'old';
+      export default function(): number {
+        return new Old().value;
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('old.ts', `
+        /** @deprecated Use New instead. */
+        export class Old {
+          value: number;
+          constructor() {
+            this.value = 1;
+          }
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap().warnings.map(warning => warning.message)).toEqual([
+        `TS6385 'Old' is deprecated. Use New instead.`,
+      ]);
+    });
+
+    it('should not warn about deprecated user code symbols', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      /** @deprecated */
+      function helper(): number {
+        return 1;
+      }
+      export default function(): number {
+        return helper();
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', [], [
+        ts.createSourceFile('goals.ts', `
+        export class Goal {
+          /** @deprecated Use Goal.recurrence instead. */
+          public static ActivityRecurrenceGoal(interval: number): Goal {
+            return new Goal();
+          }
+          public static recurrence(interval: number): Goal {
+            return new Goal();
+          }
+          /** @deprecated Pass an interval. */
+          public static every(): Goal;
+          public static every(interval: number): Goal;
+          public static every(interval?: number): Goal {
+            return new Goal();
+          }
+        }
+        /** @deprecated */
+        export const DEFAULT_INTERVAL = 10;
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap().warnings).toEqual([]);
+    });
+  });
+
+  describe('output validation', () => {
+    const goalsSignature = defineSignature({
+      parameters: [],
+      returnType: '{ goals: Goal[]; mode: "strict" | "lenient" }',
+      typeImports: [{ name: 'Goal', from: 'goals' }],
+    });
+
+    it('should accept instances of built in classes', async () => {
+      const runner = new UserCodeRunner({ validateOutput: true });
+
+      const mapResult = await runner.executeUserCode(
+        `export default function() { return new Map([['a', 1]]); }`,
+        [],
+        'Map<string, number>',
+        [],
+      );
+      const dateResult = await runner.executeUserCode(`export default function() { return new Date(0); }`, [], 'Date', []);
+
+      expect(mapResult.unwrap().get('a')).toBe(1);
+      expect(dateResult.unwrap().getTime()).toBe(0);
+    });
+
+    it('should accept instances of classes with private fields', async () => {
+      const runner = new UserCodeRunner({ validateOutput: true });
+      const counterFiles = [
+        ts.createSourceFile('counter.ts', `
+        export class Counter {
+          #count = 0;
+          increment(): number {
+            return ++this.#count;
+          }
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ];
+      const userCode = `
+      import { Counter } from 'counter';
+      export default function() {
+        return new Counter();
+      }
+      `.trimTemplate();
+      const signature = defineSignature({ parameters: [], returnType: 'Counter', typeImports: [{ name: 'Counter', from: 'counter' }] });
+
+      const result = await runner.executeUserCodeWithSignature(userCode, signature, [], 1000, counterFiles);
+
+      expect(result.unwrap().increment()).toBe(1);
+    });
+
+    it('should report the path to a value that does not match the output type', async () => {
+      const runner = new UserCodeRunner({ validateOutput: true });
+      const userCode = `
+      import type { Goal } from 'goals';
+      export default function() {
+        const goals: Goal[] = JSON.parse('[{ "name": "a", "interval": 1 }, { "name": "b", "interval": "2" }]');
+        return { goals, mode: 'strict' as const };
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeWithSignature(userCode, goalsSignature, [], 1000, [
+        ts.createSourceFile('goals.ts', `
+        export interface Goal {
+          name: string;
+          interval: number;
+          tags?: string[];
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `OutputError: Incorrect return value at '$.goals[1].interval'. Expected: 'number', Actual: '"2"'.`,
+      ]);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({
+        path: ['goals', 1, 'interval'],
+        location: { fileName: '__user_file', line: 4, column: 10 },
+      });
+    });
+
+    it('should accept values that match the output type', async () => {
+      const runner = new UserCodeRunner({ validateOutput: true });
+      const userCode = `
+      export default async function(): Promise<{ goals: any[]; mode: 'strict' | 'lenient' }> {
+        return { goals: [{ name: 'a', interval: 1, tags: ['x'] }, { name: 'b', interval: 2 }], mode: 'lenient' };
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeWithSignature(userCode, goalsSignature, [], 1000, [
+        ts.createSourceFile('goals.ts', `
+        export interface Goal {
+          name: string;
+          interval: number;
+          tags?: string[];
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      expect(result.unwrap()).toEqual({
+        goals: [{ name: 'a', interval: 1, tags: ['x'] }, { name: 'b', interval: 2 }],
+        mode: 'lenient',
+      });
+    });
+
+    it('should not validate output unless enabled', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(`export default function(): number { return 'one' as any; }`, [], 'number', []);
+
+      expect(result.unwrap()).toBe('one');
+    });
+
+    it('should locate mismatches at the export when it has several return statements', async () => {
+      const runner = new UserCodeRunner({ validateOutput: true });
+      const userCode = `
+      export function pick(first: boolean): 'a' | 'b' {
+        if (first) {
+          return 'a';
+        }
+        return 'c' as any;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [false], `'a' | 'b'`, ['boolean'], 1000, [], undefined, 'pick');
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `OutputError: Incorrect return value at '$'. Expected: '"a" | "b"', Actual: '"c"'.`,
+      ]);
+      expect(result.unwrapErr()[0].location).toMatchObject({ line: 1, column: 1 });
+    });
+
+    it('should validate artifacts with a supplied schema or type guard', async () => {
+      const runner = new UserCodeRunner();
+      const result = await runner.preProcess(`export default function() { return [1, 2, 'three']; }`, 'any', []);
+      const { jsFileMap, userCodeSourceMap } = result.unwrap();
+
+      const schemaResult = await runner.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, [], 1000, undefined, undefined, {
+        type: { kind: 'array', element: { kind: 'primitive', type: 'number' } },
+      });
+      expect(schemaResult.unwrapErr().map(error => error.message)).toEqual([
+        `OutputError: Incorrect return value at '$[2]'. Expected: 'number', Actual: '"three"'.`,
+      ]);
+
+      const guardResult = await runner.executeUserCodeFromArtifacts(
+        jsFileMap,
+        userCodeSourceMap,
+        [],
+        1000,
+        undefined,
+        undefined,
+        (value: unknown): value is number[] => Array.isArray(value) && value.every(element => typeof element === 'number'),
+      );
+      expect(guardResult.unwrapErr().map(error => error.message)).toEqual([
+        'OutputError: Incorrect return value. The value was rejected by the output validator.',
+      ]);
+    });
+  });
+
+  describe('argument validation', () => {
+    const userCode = `
+    export default function(plan: { name: string; goals: number[] }, verbose?: boolean) {
+      return plan.goals.length;
+    }
+    `.trimTemplate();
+
+    it('should record the signature the artifacts were compiled with', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'number', ['{ name: string; goals: number[] }', 'boolean?'])).unwrap();
+
+      expect(cacheItem.signatures).toEqual({
+        default: { outputType: 'number', argsTypes: ['{ name: string; goals: number[] }', 'boolean?'] },
+      });
+    });
+
+    it('should reject arguments that do not match the argument types before running stored artifacts', async () => {
+      const runner = new UserCodeRunner({ validateArgs: true });
+      const cacheItem = (await runner.preProcess(userCode, 'number', ['{ name: string; goals: number[] }', 'boolean?'])).unwrap();
+      const storedCacheItem = JSON.parse(JSON.stringify(cacheItem));
+
+      const result = await runner.executeCacheItem(storedCacheItem, [{ name: 'plan', goals: [1, '2'] }]);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(HostArgumentError);
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `ArgumentError: Incorrect argument at '$[0].goals[1]'. Expected: 'number', Actual: '"2"'. The user code was compiled for arguments '[{ name: string; goals: number[] }, boolean?]'.`,
+      ]);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ path: [0, 'goals', 1] });
+      expect((await runner.executeCacheItem(storedCacheItem, [{ name: 'plan', goals: [1, 2] }])).unwrap()).toBe(2);
+    });
+
+    it('should accept instances of built in classes as arguments', async () => {
+      const runner = new UserCodeRunner({ validateArgs: true });
+      const userCode = `
+      export default function(start: Date, durations: Map<string, number>, tags: Set<string>): number {
+        return start.getTime() + durations.get('a')! + tags.size;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(
+        userCode,
+        [new Date(1000), new Map([['a', 10]]), new Set(['x', 'y'])],
+        'number',
+        ['Date', 'Map<string, number>', 'Set<string>'],
+      );
+
+      expect(result.unwrap()).toBe(1012);
+    });
+
+    it('should reject the wrong number of arguments', async () => {
+      const runner = new UserCodeRunner({ validateArgs: true });
+
+      const result = await runner.executeUserCode(userCode, [{ name: 'plan', goals: [] }, true, 'extra'] as any[], 'number', [
+        '{ name: string; goals: number[] }',
+        'boolean?',
+      ]);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        `ArgumentError: Incorrect number of arguments. Expected: '[{ name: string; goals: number[] }, boolean?]', Actual: 3 arguments.`,
+      ]);
+    });
+
+    it('should not check arguments of artifacts compiled without validateArgs', async () => {
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, 'number', ['{ name: string; goals: number[] }'])).unwrap();
+
+      const result = await new UserCodeRunner({ validateArgs: true }).executeCacheItem(cacheItem, [{ name: 'plan', goals: 'abc' }]);
+
+      expect(result.unwrap()).toBe(3);
+    });
+  });
+
+  describe('quick fixes', () => {
+    const applyFixes = (code: string, fixes: UserCodeFix[]) =>
+      applyTextEdits(code, fixes.flatMap(fix => fix.edits), '__user_file');
+
+    it('should attach a fix that adds a missing import', async () => {
+      const runner = new UserCodeRunner({ quickFixes: true });
+      const userCode = `
+      export default function() {
+        return goal('a');
+      }
+      `.trimTemplate();
+      const additionalSourceFiles = [
+        ts.createSourceFile('goals.ts', `
+        export function goal(name: string): { name: string } {
+          return { name };
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ];
+
+      const result = await runner.preProcess(userCode, '{ name: string }', [], additionalSourceFiles);
+
+      const error = result.unwrapErr()[0] as UserCodeTypeError;
+      expect(error.message).toBe(`TypeError: TS2304 Cannot find name 'goal'.`);
+      expect(error.fixes.map(fix => fix.description)).toEqual([
+        `Add import from "./goals"`,
+        `Add missing function declaration 'goal'`,
+      ]);
+      expect(error.toJSON().fixes[0].edits).toEqual([
+        { fileName: '__user_file', start: 0, length: 0, newText: `import { goal } from "./goals";\n\n` },
+      ]);
+      expect((await runner.preProcess(applyFixes(userCode, [error.fixes[0]]), '{ name: string }', [], additionalSourceFiles)).isOk()).toBe(true);
+    });
+
+    it('should attach fixes for misspelled names and missing awaits', async () => {
+      const runner = new UserCodeRunner({ quickFixes: true });
+      const userCode = `
+      export default async function(): Promise<number> {
+        const value = Promise.resolve(1.5);
+        return Math.flor(value * 2);
+      }
+      `.trimTemplate();
+
+      const result = await runner.preProcess(userCode, 'number', []);
+
+      const [spellingError, awaitError] = result.unwrapErr() as UserCodeTypeError[];
+      expect(spellingError.fixes.map(fix => fix.description)).toEqual([`Change spelling to 'floor'`]);
+      expect(awaitError.fixes.map(fix => fix.description).sort()).toEqual([`Add 'await'`, `Add 'await' to initializer for 'value'`]);
+      const fixedCode = applyFixes(userCode, [
+        spellingError.fixes[0],
+        awaitError.fixes.find(fix => fix.description === `Add 'await'`)!,
+      ]);
+      expect(fixedCode).toBe(`
+      export default async function(): Promise<number> {
+        const value = Promise.resolve(1.5);
+        return Math.floor(await value * 2);
+      }
+      `.trimTemplate());
+    });
+
+    it('should not look for fixes unless enabled', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(`export default function() { return Math.flor(1); }`, 'number', []);
+
+      expect((result.unwrapErr()[0] as UserCodeTypeError).fixes).toEqual([]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should organize imports and format user code', async () => {
+      const runner = new UserCodeRunner({ formatOptions: { indentSize: 2, tabSize: 2, semicolons: ts.SemicolonPreference.Insert } });
+      const userCode = `import {unused} from 'goals'\nimport { recurrence,goal } from 'goals'\nexport default function(){\nreturn goal( 'a' )\n}\n`;
+      const additionalSourceFiles = [
+        ts.createSourceFile('goals.ts', `
+        export const goal = (name: string) => ({ name });
+        export const recurrence = (interval: number) => ({ interval });
+        export const unused = 1;
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ];
+
+      const formattedUserCode = await runner.formatUserCode(userCode, additionalSourceFiles);
+
+      expect(formattedUserCode).toBe(`import { goal } from 'goals';\nexport default function() {\n  return goal('a');\n}\n`);
+      expect(await runner.formatUserCode(formattedUserCode, additionalSourceFiles)).toBe(formattedUserCode);
+    });
+  });
+
+  describe('worker executor', () => {
+    it('should return the value of the user code and see the globals of the context', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker' });
+      const userCode = `
+      declare const greeting: string;
+      export default async function(names: string[]) {
+        await null;
+        return names.map(name => ({ message: greeting + ' ' + name }));
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [['a', 'b']], '{ message: string }[]', ['string[]'], 1000, [], vm.createContext({ greeting: 'Hello' }));
+
+      expect(result.unwrap()).toEqual([{ message: 'Hello a' }, { message: 'Hello b' }]);
+    });
+
+    it('should report runtime errors the same way as the vm executor', async () => {
+      const userCode = `
+      export default function(): number {
+        throw new Error('Unhandled exception');
+      }
+      `.trimTemplate();
+
+      const workerResult = await new UserCodeRunner({ executor: 'worker' }).executeUserCode(userCode, [], 'number', []);
+      const vmResult = await new UserCodeRunner().executeUserCode(userCode, [], 'number', []);
+
+      expect(workerResult.unwrapErr().map(error => error.toJSON())).toEqual(vmResult.unwrapErr().map(error => error.toJSON()));
+      expect(workerResult.unwrapErr()[0].message).toBe('Error: Unhandled exception');
+      expect(workerResult.unwrapErr()[0].location).toMatchObject({ line: 2, column: 8 });
+    });
+
+    it('should terminate user code that is still running when the timeout passes', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker' });
+      const userCode = `
+      export default async function(): Promise<number> {
+        while (Date.now() > 0) {
+          await null;
+        }
+        return 1;
+      }
+      `.trimTemplate();
+
+      const start = Date.now();
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 200);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].message).toBe('TimeoutError: Execution timed out after 200ms while awaiting the result of the user code.');
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('should report results that cannot be copied out of the worker', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker' });
+
+      const result = await runner.executeUserCode(`export default function() { return Symbol('s'); }`, [], 'any', []);
+
+      expect(result.unwrapErr().map(error => error.message)).toEqual([
+        'OutputError: Incorrect return value. The value cannot be copied out of the worker: Symbol(s) could not be cloned.',
+      ]);
+    });
+
+    it('should report arguments and context globals that cannot be copied into the worker', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker' });
+      const userCode = `export default function(first: any, second: any) { return 1; }`;
+
+      const argsResult = await runner.executeUserCode(userCode, [1, Symbol('s')], 'number', ['any', 'any']);
+      const contextResult = await runner.executeUserCode(userCode, [1, 2], 'number', ['any', 'any'], 1000, [], vm.createContext({ log: Symbol('log') }));
+
+      expect(argsResult.unwrapErr()[0]).toBeInstanceOf(HostCloneError);
+      expect(argsResult.unwrapErr()[0].toJSON()).toEqual({
+        message: 'CloneError: The argument 1 cannot be copied into the worker: Symbol(s) could not be cloned.',
+        stack: 'at (__execution_harness:1:1)',
+        location: { fileName: '__execution_harness', line: 1, column: 1 },
+        input: 'argument 1',
+      });
+      expect(contextResult.unwrapErr()[0].message).toBe(
+        "CloneError: The context global 'log' cannot be copied into the worker: Symbol(log) could not be cloned.",
+      );
+    });
+  });
+
+  describe('resource limits', () => {
+    it('should stop user code that allocates more memory than allowed', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker', resourceLimits: { maxOldGenerationSizeMb: 32 } });
+      const userCode = `
+      export default function(): number {
+        const chunks: number[][] = [];
+        while (chunks.length >= 0) {
+          chunks.push(new Array(1_000_000).fill(chunks.length));
+        }
+        return chunks.length;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 10000);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeResourceLimitError);
+      expect(result.unwrapErr()[0].toJSON()).toEqual({
+        message: 'ResourceLimitError: Execution ran out of memory (maxOldGenerationSizeMb: 32).',
+        stack: 'at (1:1)',
+        location: { fileName: '__user_file', line: 1, column: 1 },
+        limits: { maxOldGenerationSizeMb: 32 },
+      });
+      // The runner stays usable for the next execution
+      expect((await runner.executeUserCode(`export default () => 1;`, [], 'number', [])).unwrap()).toBe(1);
+    });
+
+    it('should report running out of stack as a runtime error', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker', resourceLimits: { stackSizeMb: 1 } });
+      const userCode = `
+      const recurse = (depth: number): number => recurse(depth + 1);
+      export default function(): number {
+        return recurse(0);
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', []);
+
+      expect(result.unwrapErr()[0].message).toBe('Error: Maximum call stack size exceeded');
+    });
+
+    it('should require the worker executor', () => {
+      expect(() => new UserCodeRunner({ resourceLimits: { maxOldGenerationSizeMb: 32 } })).toThrow(
+        `Resource limits require the 'worker' executor`,
+      );
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should time out user code that runs synchronously for too long', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default function(): number {
+        while (Date.now() > 0) {}
+        return 1;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 100);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].toJSON()).toEqual({
+        message: 'TimeoutError: Execution timed out after 100ms while running the user code.',
+        stack: 'at (1:1)',
+        location: { fileName: '__user_file', line: 1, column: 1 },
+        limit: 100,
+        phase: 'evaluation',
+        elapsed: expect.any(Number),
+      });
+      expect((result.unwrapErr()[0] as UserCodeTimeoutError).elapsed).toBeGreaterThanOrEqual(100);
+    });
+
+    it('should time out user code that awaits a promise that never resolves', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        await new Promise(() => {});
+        return 1;
+      }
+      `.trimTemplate();
+
+      const start = Date.now();
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 100);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ limit: 100, phase: 'awaiting-result' });
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('should time out user code that keeps awaiting in a vm context', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        let i = 0;
+        while (i >= 0) {
+          await null;
+          i++;
+        }
+        return i;
+      }
+      `.trimTemplate();
+
+      const start = Date.now();
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 300);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ limit: 300, phase: 'awaiting-result' });
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('should time out user code that runs for too long after awaiting in a vm context', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        await null;
+        while (Date.now() > 0) {}
+        return 1;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 300);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ limit: 300, phase: 'awaiting-result' });
+    });
+
+    it('should reject user code that declares the deadline check', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      const __checkDeadline = () => {};
+      export default async function(): Promise<number> {
+        await null;
+        while (Math.random() < 2) {}
+        return 1;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 300);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodePolicyError);
+      expect(result.unwrapErr()[0].message).toBe(
+        'PolicyError: The name __checkDeadline is reserved for the runner. (no-reserved-names)',
+      );
+      expect(result.unwrapErr()[0].location).toEqual({ fileName: '__user_file', line: 1, column: 7 });
+      expect(() => new UserCodeRunner({ policy: { rules: { 'no-reserved-names': false } } })).toThrow(
+        'Policy rules that cannot be disabled: no-reserved-names',
+      );
+    });
+
+    it('should time out user code that tries to redefine the deadline check', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        try {
+          Object.defineProperty(globalThis, '__checkDeadline', { value: () => {} });
+        } catch {}
+        try {
+          (globalThis as any)['__checkDeadline'] = () => {};
+        } catch {}
+        await null;
+        while (Math.random() < 2) {}
+        return 1;
+      }
+      `.trimTemplate();
+
+      const start = Date.now();
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 300);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ limit: 300, phase: 'awaiting-result' });
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('should time out user code that keeps awaiting when transpiled only', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        let i = 0;
+        while (i >= 0) {
+          await null;
+          i++;
+        }
+        return i;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCodeTranspileOnly(userCode, [], 300);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+    });
+
+    it('should await promises of the host within the timeout', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      declare function later(value: number): Promise<number>;
+      export default async function(): Promise<number> {
+        return (await later(1)) + (await later(2));
+      }
+      `.trimTemplate();
+      const context = vm.createContext({ later: (value: number) => new Promise(resolve => setTimeout(() => resolve(value), 20)) });
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 1000, [], context);
+
+      expect(result.unwrap()).toBe(3);
+    });
+
+    it('should not count the time of executions that finished in time', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        await null;
+        return 1;
+      }
+      `.trimTemplate();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 100);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(result.unwrap()).toBe(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel the compilation when aborted during preProcess', async () => {
+      const runner = new UserCodeRunner();
+      const controller = new AbortController();
+
+      const execution = runner.executeUserCode(`export default () => 1;`, [], 'number', [], 1000, [], vm.createContext(), 'default', controller.signal);
+      controller.abort();
+      const result = await execution;
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancelledError);
+      expect(result.unwrapErr()[0].toJSON()).toEqual({
+        message: 'CancelledError: The compilation of the user code was cancelled.',
+        stack: 'at (1:1)',
+        location: { fileName: '__user_file', line: 1, column: 1 },
+        phase: 'compilation',
+      });
+    });
+
+    it('should not run user code when the signal was aborted before execution', async () => {
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(`declare const state: { ran: boolean };\nexport default () => { state.ran = true; };`, 'void', [])).unwrap();
+      const context = vm.createContext({ state: { ran: false } });
+
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem.jsFileMap, cacheItem.userCodeSourceMap, [], 1000, context, undefined, undefined, AbortSignal.abort());
+
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ phase: 'execution' });
+      expect(context.state.ran).toBe(false);
+    });
+
+    it('should stop awaiting the result of user code in a vm context', async () => {
+      const runner = new UserCodeRunner();
+      const userCode = `
+      export default async function(): Promise<number> {
+        await new Promise(() => {});
+        return 1;
+      }
+      `.trimTemplate();
+
+      const cacheItem = (await runner.preProcess(userCode, 'number', [])).unwrap();
+
+      const start = Date.now();
+      const result = await runner.executeCacheItem(cacheItem, [], 10000, vm.createContext(), 'default', AbortSignal.timeout(100));
+
+      expect(result.unwrapErr()[0].message).toBe('CancelledError: The execution of the user code was cancelled.');
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it('should terminate the worker of user code that is still running', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker' });
+      const userCode = `
+      export default async function(): Promise<number> {
+        while (Date.now() > 0) {
+          await null;
+        }
+        return 1;
+      }
+      `.trimTemplate();
+
+      const cacheItem = (await runner.preProcess(userCode, 'number', [])).unwrap();
+
+      const start = Date.now();
+      const result = await runner.executeCacheItem(cacheItem, [], 10000, vm.createContext(), 'default', AbortSignal.timeout(500));
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancelledError);
+      expect(result.unwrapErr()[0].toJSON()).toMatchObject({ phase: 'execution' });
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+  });
+
+  describe('locating timeouts', () => {
+    const userCode = `
+    export default function(): number {
+      let iterations = 0;
+      while (Date.now() > 0) {
+        iterations++;
+      }
+      return iterations;
+    }
+    `.trimTemplate();
+
+    it('should report where user code in a vm context was running when it timed out', async () => {
+      const runner = new UserCodeRunner({ locateTimeouts: true });
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 200);
+
+      const error = result.unwrapErr()[0] as UserCodeTimeoutError;
+      expect(error).toBeInstanceOf(UserCodeTimeoutError);
+      expect(error.toJSON()).toMatchObject({ limit: 200, phase: 'evaluation' });
+      expect(error.location.fileName).toBe('__user_file');
+      // Within the loop, either its condition or its body
+      expect([3, 4]).toContain(error.location.line);
+      expect(error.stack).toBe(`at (${error.location.line}:${error.location.column})`);
+    });
+
+    it('should report where user code in a worker was running when it timed out', async () => {
+      const runner = new UserCodeRunner({ executor: 'worker', locateTimeouts: true });
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 200);
+
+      const error = result.unwrapErr()[0] as UserCodeTimeoutError;
+      expect(error.location.fileName).toBe('__user_file');
+      // Within the loop, either its condition or its body
+      expect([3, 4]).toContain(error.location.line);
+      expect(error.elapsed).toBeGreaterThanOrEqual(200);
+    });
+
+    it('should report the start of the user code without the option', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, [], 'number', [], 100);
+
+      expect(result.unwrapErr()[0].location).toEqual({ fileName: '__user_file', line: 1, column: 1 });
+    });
+
+    it('should report the start of the entry file of a project without the option', async () => {
+      const runner = new UserCodeRunner();
+      const cacheItem = (
+        await runner.preProcessProject(
+          {
+            entry: 'main.ts',
+            files: {
+              'main.ts': `
+              import { spin } from './helpers/spin';
+              export default function(): number {
+                return spin();
+              }
+              `.trimTemplate(),
+              'helpers/spin.ts': userCode.replace('export default function()', 'export function spin()'),
+            },
+          },
+          'number',
+          [],
+        )
+      ).unwrap();
+
+      const result = await runner.executeCacheItem(cacheItem, [], 100);
+
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      expect(result.unwrapErr()[0].location).toEqual({ fileName: 'main.ts', line: 1, column: 1 });
+    });
+  });
 });
 
 describe('regression tests', () => {
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import { getModuleKey, validateModuleMap, VirtualModuleResolver } from '../src/utils/moduleResolution';
+
+describe('getModuleKey', () => {
+	it('should keep the directory and drop the extension', () => {
+		expect(getModuleKey('constraints/index.ts')).toBe('constraints/index');
+		expect(getModuleKey('./constraints/../scheduler/index.js')).toBe('scheduler/index');
+		expect(getModuleKey('__user_file')).toBe('__user_file');
+	});
+});
+
+describe('VirtualModuleResolver', () => {
+	const resolver = new VirtualModuleResolver(
+		[
+			'main',
+			'helpers/time',
+			'constraints/index',
+			'constraints/windows',
+			'scheduler/index',
+			'globals.d',
+			'legacy/other-importable',
+		],
+		{
+			'aerie/constraints': 'constraints/index.ts',
+			'aerie/*': '*/index.ts',
+			'aerie/constraints/*': 'constraints/*',
+		},
+	);
+
+	it('should resolve relative specifiers against the importing file', () => {
+		expect(resolver.resolve('./helpers/time', 'main')).toBe('helpers/time');
+		expect(resolver.resolve('../main.js', 'helpers/time')).toBe('main');
+		expect(resolver.resolve('./windows', 'constraints/index')).toBe('constraints/windows');
+		expect(resolver.resolve('./missing', 'main')).toBeUndefined();
+	});
+
+	it('should resolve bare specifiers through the module map', () => {
+		expect(resolver.resolve('aerie/constraints', 'main')).toBe('constraints/index');
+		expect(resolver.resolve('aerie/scheduler', 'main')).toBe('scheduler/index');
+		expect(resolver.resolve('aerie/constraints/windows', 'main')).toBe('constraints/windows');
+		expect(resolver.resolve('aerie/missing', 'main')).toBeUndefined();
+	});
+
+	it('should resolve paths from the root, directory indexes and declaration files', () => {
+		expect(resolver.resolve('helpers/time', 'constraints/index')).toBe('helpers/time');
+		expect(resolver.resolve('scheduler', 'main')).toBe('scheduler/index');
+		expect(resolver.resolve('globals', 'main')).toBe('globals.d');
+	});
+
+	it('should resolve absolute specifiers without the module map', () => {
+		const catchAllResolver = new VirtualModuleResolver(['/abs/dir/lib', 'lib'], { '*': 'lib' });
+
+		expect(catchAllResolver.resolve('/abs/dir/lib', '__execution_harness')).toBe('/abs/dir/lib');
+		expect(catchAllResolver.resolve('/abs/dir/lib.js', 'main')).toBe('/abs/dir/lib');
+		expect(catchAllResolver.resolve('/abs/missing', 'main')).toBeUndefined();
+	});
+
+	it('should resolve unambiguous base names', () => {
+		expect(resolver.resolve('other-importable', 'main')).toBe('legacy/other-importable');
+		expect(resolver.resolve('index', 'main')).toBeUndefined();
+	});
+});
+
+describe('validateModuleMap', () => {
+	it('should reject malformed entries', () => {
+		expect(() => validateModuleMap({ 'aerie/*/*': '*' })).toThrow("Invalid module map entry: 'aerie/*/*' -> '*'");
+		expect(() => validateModuleMap({ aerie: 'constraints/*' })).toThrow(
+			"Invalid module map entry: 'aerie' -> 'constraints/*'",
+		);
+		expect(() => validateModuleMap({ './aerie': 'constraints' })).toThrow(
+			"Module map specifiers must not be relative: './aerie'",
+		);
+	});
+});